@@ -29,6 +29,12 @@ export interface Config {
   enabledTools: string[];
   /** Use TONL encoding for responses (default: true) */
   useTonl: boolean;
+  /** Maximum attachment size in bytes whose content is returned to the agent */
+  maxAttachmentReadBytes: number;
+  /** Maximum total size in bytes of attachments on one outgoing item */
+  maxAttachmentUploadBytes: number;
+  /** Allowed attachment content types, e.g. application/pdf or image/* (empty = all types allowed) */
+  allowedAttachmentTypes: string[];
 }
 
 let cachedConfig: Config | null = null;
@@ -61,6 +67,13 @@ export function getConfig(): Config {
     .map(t => t.trim())
     .filter(t => t.length > 0);
 
+  // Parse allowed attachment content types from comma-separated string
+  const allowedAttachmentTypesEnv = process.env.MS365_MCP_ALLOWED_ATTACHMENT_TYPES || '';
+  const allowedAttachmentTypes = allowedAttachmentTypesEnv
+    .split(',')
+    .map(t => t.trim().toLowerCase())
+    .filter(t => t.length > 0);
+
   cachedConfig = {
     clientId,
     clientSecret: process.env.MS365_MCP_CLIENT_SECRET || undefined,
@@ -75,6 +88,9 @@ export function getConfig(): Config {
     readOnlyMode: process.env.MS365_MCP_READ_ONLY_MODE === 'true',
     enabledTools,
     useTonl: process.env.MS365_MCP_USE_TONL !== 'false', // default true
+    maxAttachmentReadBytes: parseInt(process.env.MS365_MCP_MAX_ATTACHMENT_READ_BYTES || '1048576', 10),
+    maxAttachmentUploadBytes: parseInt(process.env.MS365_MCP_MAX_ATTACHMENT_UPLOAD_BYTES || '10485760', 10),
+    allowedAttachmentTypes,
   };
 
   return cachedConfig;
@@ -105,9 +121,15 @@ export const SUPPORTED_SCOPES = [
   'Mail.Read',
   'Mail.ReadWrite',
   'Mail.Send',
+  'Mail.Read.Shared',
+  'Mail.ReadWrite.Shared',
+  'Mail.Send.Shared',
+  'MailboxSettings.Read',
+  'MailboxSettings.ReadWrite',
   'Calendars.Read',
   'Calendars.ReadWrite',
   'Calendars.Read.Shared',
+  'Calendars.ReadWrite.Shared',
   'Place.Read.All',
   'People.Read',
   'offline_access',
@@ -0,0 +1,384 @@
+/**
+ * Attachment helpers for Microsoft Graph API
+ * 
+ * Shared by the tools that read attachments from Outlook items so that
+ * size limits and content extraction behave the same everywhere.
+ */
+
+import { z } from 'zod';
+import { graphRequest, type GraphResponse, type GraphError } from './client.js';
+import { getConfig } from '../config.js';
+import logger from '../utils/logger.js';
+import { stripHtml } from '../utils/html.js';
+import { sanitizePathSegment } from '../utils/sanitize.js';
+
+/**
+ * Attachment supplied by the agent on outgoing items
+ */
+export const attachmentInputSchema = z.object({
+  name: z.string().min(1),
+  contentType: z.string().optional().default('application/octet-stream'),
+  contentBytes: z.string().min(1),
+});
+
+export type AttachmentInput = z.infer<typeof attachmentInputSchema>;
+
+/**
+ * Validated outgoing attachment with its decoded size
+ */
+export interface PreparedAttachment extends AttachmentInput {
+  size: number;
+}
+
+/**
+ * Attachment as returned by the Graph /attachments endpoints
+ */
+export interface GraphAttachment {
+  '@odata.type'?: string;
+  id?: string;
+  name?: string;
+  contentType?: string;
+  size?: number;
+  isInline?: boolean;
+  lastModifiedDateTime?: string;
+  contentBytes?: string;
+  sourceUrl?: string;
+  item?: Record<string, unknown>;
+}
+
+/**
+ * Compact attachment metadata returned to the agent
+ */
+export interface AttachmentSummary {
+  id?: string;
+  name?: string;
+  kind: 'file' | 'item' | 'reference';
+  contentType?: string;
+  size: number;
+  isInline: boolean;
+  lastModifiedDateTime?: string;
+}
+
+export type AttachmentFormat = 'auto' | 'text' | 'base64';
+
+export interface ReadAttachmentOptions {
+  /** How to return file content (default: auto = text for text-like types, base64 otherwise) */
+  format?: AttachmentFormat;
+  /** Reshape an expanded item attachment (attached message or event) */
+  normalizeItem?: (item: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Graph's limit for attachments sent inline with a request payload.
+ * Anything larger must go through an upload session.
+ */
+const INLINE_ATTACHMENT_LIMIT = 3 * 1024 * 1024;
+
+/** Upload session chunk size (Graph requires a multiple of 320 KiB) */
+const UPLOAD_CHUNK_SIZE = 10 * 320 * 1024;
+
+/** Attachment fields to $select when content is not needed */
+const ATTACHMENT_METADATA_FIELDS = 'id,name,contentType,size,isInline,lastModifiedDateTime';
+
+/** Content types (besides text/*) whose bytes are readable as UTF-8 text */
+const TEXT_CONTENT_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/csv',
+  'application/x-csv',
+  'application/javascript',
+  'application/x-yaml',
+];
+
+/** File extensions treated as text when Graph reports a generic content type */
+const TEXT_EXTENSIONS = ['.txt', '.csv', '.tsv', '.md', '.json', '.xml', '.html', '.htm', '.ics', '.log', '.yaml', '.yml'];
+
+/**
+ * Reduce a Graph attachment to the metadata agents need
+ */
+export function summarizeAttachment(attachment: GraphAttachment): AttachmentSummary {
+  const odataType = attachment['@odata.type'] || '';
+  const kind = odataType.endsWith('itemAttachment')
+    ? 'item'
+    : odataType.endsWith('referenceAttachment') ? 'reference' : 'file';
+  
+  return {
+    id: attachment.id,
+    name: attachment.name,
+    kind,
+    contentType: attachment.contentType,
+    size: attachment.size ?? 0,
+    isInline: attachment.isInline ?? false,
+    lastModifiedDateTime: attachment.lastModifiedDateTime,
+  };
+}
+
+/**
+ * Check whether an attachment's content can be returned as text
+ */
+function isTextAttachment(contentType?: string, name?: string): boolean {
+  const type = (contentType || '').toLowerCase().split(';')[0].trim();
+  if (type.startsWith('text/') || TEXT_CONTENT_TYPES.includes(type)) {
+    return true;
+  }
+  
+  const lowerName = (name || '').toLowerCase();
+  return TEXT_EXTENSIONS.some(ext => lowerName.endsWith(ext));
+}
+
+/**
+ * Extract file attachment content as plain text or base64
+ * HTML attachments are converted to plain text to save tokens.
+ */
+function extractAttachmentContent(
+  attachment: GraphAttachment,
+  format: AttachmentFormat
+): { encoding: 'text' | 'base64'; content: string } {
+  const contentBytes = attachment.contentBytes || '';
+  const asText = format === 'text' || (format === 'auto' && isTextAttachment(attachment.contentType, attachment.name));
+  
+  if (!asText) {
+    return { encoding: 'base64', content: contentBytes };
+  }
+  
+  const text = Buffer.from(contentBytes, 'base64').toString('utf-8');
+  const isHtml = /html/i.test(attachment.contentType || '') || /\.html?$/i.test(attachment.name || '');
+  
+  return { encoding: 'text', content: isHtml ? stripHtml(text) : text };
+}
+
+/**
+ * List attachment metadata for an Outlook item
+ * 
+ * @param parentPath - Sanitized item path, e.g. `/me/messages/{id}`
+ */
+export async function listAttachments(parentPath: string): Promise<GraphResponse<unknown>> {
+  const response = await graphRequest<{ value?: GraphAttachment[] }>(
+    `${parentPath}/attachments?$select=${ATTACHMENT_METADATA_FIELDS}`
+  );
+  
+  if (!response.ok) {
+    return response;
+  }
+  
+  return {
+    ...response,
+    data: { value: (response.data.value || []).map(summarizeAttachment) },
+  };
+}
+
+/**
+ * Read a single attachment from an Outlook item
+ * 
+ * - File attachments: content as text (text/CSV/HTML etc.) or base64, up to
+ *   the configured read limit. Larger files return metadata only.
+ * - Item attachments: the attached message/event, expanded
+ * - Reference attachments: the link to the cloud file
+ * 
+ * @param parentPath - Sanitized item path, e.g. `/me/messages/{id}`
+ */
+export async function readAttachment(
+  parentPath: string,
+  attachmentId: string,
+  options: ReadAttachmentOptions = {}
+): Promise<GraphResponse<unknown>> {
+  const { maxAttachmentReadBytes } = getConfig();
+  const attachmentPath = `${parentPath}/attachments/${sanitizePathSegment(attachmentId, 'attachmentId')}`;
+  
+  // Fetch metadata first so oversized files are never downloaded
+  const metaResponse = await graphRequest<GraphAttachment>(
+    `${attachmentPath}?$select=${ATTACHMENT_METADATA_FIELDS}`
+  );
+  if (!metaResponse.ok) {
+    return metaResponse;
+  }
+  
+  const summary = summarizeAttachment(metaResponse.data);
+  
+  if (summary.kind === 'item') {
+    const response = await graphRequest<GraphAttachment>(
+      `${attachmentPath}?$expand=microsoft.graph.itemattachment/item`,
+      { headers: { 'Prefer': 'outlook.body-content-type="text"' } }
+    );
+    if (!response.ok) {
+      return response;
+    }
+    
+    const item = response.data.item || {};
+    return {
+      ...response,
+      data: { ...summary, item: options.normalizeItem ? options.normalizeItem(item) : item },
+    };
+  }
+  
+  if (summary.size > maxAttachmentReadBytes) {
+    return {
+      ...metaResponse,
+      data: {
+        ...summary,
+        _warning: `Attachment is ${summary.size} bytes, which exceeds the read limit of ${maxAttachmentReadBytes} bytes. Only metadata is returned.`,
+      },
+    };
+  }
+  
+  const response = await graphRequest<GraphAttachment>(attachmentPath);
+  if (!response.ok) {
+    return response;
+  }
+  
+  if (summary.kind === 'reference') {
+    return { ...response, data: { ...summary, sourceUrl: response.data.sourceUrl } };
+  }
+  
+  return {
+    ...response,
+    data: { ...summary, ...extractAttachmentContent(response.data, options.format || 'auto') },
+  };
+}
+
+/**
+ * Check a content type against the configured allowlist (supports `type/*` wildcards)
+ */
+function isAllowedContentType(contentType: string, allowedTypes: string[]): boolean {
+  if (allowedTypes.length === 0) {
+    return true;
+  }
+  
+  const type = contentType.toLowerCase().split(';')[0].trim();
+  return allowedTypes.some(allowed =>
+    allowed.endsWith('/*') ? type.startsWith(allowed.slice(0, -1)) : type === allowed
+  );
+}
+
+/**
+ * Validate outgoing attachments against the configured type and size limits
+ * 
+ * @throws Error if content is not valid base64, a content type is not allowed,
+ *         or the total size exceeds the upload limit
+ */
+export function prepareAttachments(attachments: AttachmentInput[]): PreparedAttachment[] {
+  const { maxAttachmentUploadBytes, allowedAttachmentTypes } = getConfig();
+  
+  const prepared = attachments.map(attachment => {
+    if (!/^[A-Za-z0-9+/\r\n]*={0,2}$/.test(attachment.contentBytes)) {
+      throw new Error(`Attachment "${attachment.name}": contentBytes must be base64-encoded.`);
+    }
+    if (!isAllowedContentType(attachment.contentType, allowedAttachmentTypes)) {
+      throw new Error(
+        `Attachment "${attachment.name}": content type "${attachment.contentType}" is not allowed. ` +
+        `Allowed types: ${allowedAttachmentTypes.join(', ')}`
+      );
+    }
+    
+    return {
+      ...attachment,
+      size: Buffer.byteLength(attachment.contentBytes, 'base64'),
+    };
+  });
+  
+  const totalSize = prepared.reduce((sum, a) => sum + a.size, 0);
+  if (totalSize > maxAttachmentUploadBytes) {
+    throw new Error(
+      `Attachments total ${totalSize} bytes, which exceeds the upload limit of ${maxAttachmentUploadBytes} bytes.`
+    );
+  }
+  
+  return prepared;
+}
+
+/**
+ * Check whether attachments can be sent inline with the item payload.
+ * Graph rejects request payloads over 4 MB, so everything above 3 MB in
+ * total is uploaded separately after the item exists.
+ */
+export function canSendInline(attachments: PreparedAttachment[]): boolean {
+  return attachments.reduce((sum, a) => sum + a.size, 0) <= INLINE_ATTACHMENT_LIMIT;
+}
+
+/**
+ * Convert a prepared attachment to a Graph fileAttachment payload
+ */
+export function toFileAttachment(attachment: PreparedAttachment): Record<string, unknown> {
+  return {
+    '@odata.type': '#microsoft.graph.fileAttachment',
+    name: attachment.name,
+    contentType: attachment.contentType,
+    contentBytes: attachment.contentBytes,
+  };
+}
+
+/**
+ * Upload a large attachment in chunks through a Graph upload session
+ */
+async function uploadLargeAttachment(parentPath: string, attachment: PreparedAttachment): Promise<void> {
+  const sessionResponse = await graphRequest<{ uploadUrl?: string } | GraphError>(
+    `${parentPath}/attachments/createUploadSession`,
+    {
+      method: 'POST',
+      body: {
+        AttachmentItem: {
+          attachmentType: 'file',
+          name: attachment.name,
+          size: attachment.size,
+          contentType: attachment.contentType,
+        },
+      },
+    }
+  );
+  
+  const uploadUrl = (sessionResponse.data as { uploadUrl?: string })?.uploadUrl;
+  if (!sessionResponse.ok || !uploadUrl) {
+    const message = (sessionResponse.data as GraphError)?.error?.message;
+    throw new Error(`Failed to create upload session for "${attachment.name}": ${message || sessionResponse.status}`);
+  }
+  
+  const bytes = Buffer.from(attachment.contentBytes, 'base64');
+  
+  for (let offset = 0; offset < bytes.length; offset += UPLOAD_CHUNK_SIZE) {
+    const chunk = bytes.subarray(offset, Math.min(offset + UPLOAD_CHUNK_SIZE, bytes.length));
+    const rangeEnd = offset + chunk.length - 1;
+    
+    logger.debug('Uploading attachment chunk', {
+      name: attachment.name,
+      range: `${offset}-${rangeEnd}/${bytes.length}`,
+    });
+    
+    // The upload URL is pre-authenticated: sending an Authorization header makes Graph reject it
+    const response = await fetch(uploadUrl, {
+      method: 'PUT',
+      headers: {
+        'Content-Length': String(chunk.length),
+        'Content-Range': `bytes ${offset}-${rangeEnd}/${bytes.length}`,
+      },
+      body: chunk,
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to upload "${attachment.name}" (bytes ${offset}-${rangeEnd}): ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+/**
+ * Add attachments to an existing Outlook item (e.g. a draft message)
+ * Small files are posted directly, large files use an upload session.
+ * 
+ * @param parentPath - Sanitized item path, e.g. `/me/messages/{id}`
+ */
+export async function addAttachments(parentPath: string, attachments: PreparedAttachment[]): Promise<void> {
+  for (const attachment of attachments) {
+    if (attachment.size > INLINE_ATTACHMENT_LIMIT) {
+      await uploadLargeAttachment(parentPath, attachment);
+      continue;
+    }
+    
+    const response = await graphRequest<GraphError>(`${parentPath}/attachments`, {
+      method: 'POST',
+      body: toFileAttachment(attachment),
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to attach "${attachment.name}": ${response.data?.error?.message || response.status}`);
+    }
+  }
+}
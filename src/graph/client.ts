@@ -20,6 +20,8 @@ export interface GraphResponse<T = unknown> {
   data: T;
   status: number;
   ok: boolean;
+  /** Retry-After header in seconds, sent with throttling (429) and 503 responses */
+  retryAfter?: number;
 }
 
 export interface GraphError {
@@ -90,13 +92,159 @@ export async function graphRequest<T = unknown>(
     });
   }
   
+  const retryAfter = parseInt(response.headers.get('retry-after') || '', 10);
+  
   return {
     data,
     status: response.status,
     ok: response.ok,
+    ...(Number.isFinite(retryAfter) && { retryAfter }),
   };
 }
 
+export interface GraphBatchRequest {
+  /** Caller-chosen ID used to correlate the response (unique within the batch) */
+  id: string;
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  /** URL relative to the Graph API base, e.g. /me/messages/{id} */
+  url: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface GraphBatchResponse<T = unknown> {
+  id: string;
+  data: T;
+  status: number;
+  ok: boolean;
+}
+
+/** Single response inside a $batch reply */
+interface BatchResponseItem {
+  id: string;
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+/** Maximum number of requests Graph accepts in one $batch call */
+const MAX_BATCH_SIZE = 20;
+
+/** How often throttled (429) requests inside a batch, or a throttled batch itself, are retried */
+const MAX_BATCH_RETRIES = 3;
+
+/** Statuses of the $batch call itself that are worth retrying */
+const RETRYABLE_BATCH_STATUSES = [429, 503, 504];
+
+/**
+ * Execute requests through Graph's JSON batching endpoint ($batch)
+ * 
+ * Requests are sent in chunks of 20. Graph runs the requests of a batch in
+ * parallel, so mailbox operations regularly come back throttled (429, e.g.
+ * MailboxConcurrency); those are retried after their Retry-After delay.
+ * A throttled or unavailable $batch call is retried the same way. If a chunk
+ * still fails, its requests and those of later chunks are returned as failed
+ * instead of throwing, so callers can still report what earlier chunks did.
+ * Responses are returned in the order of the input requests.
+ */
+export async function graphBatch<T = unknown>(
+  requests: GraphBatchRequest[]
+): Promise<GraphBatchResponse<T>[]> {
+  const results = new Map<string, GraphBatchResponse<T>>();
+  let batchFailed = false;
+  
+  for (let i = 0; i < requests.length && !batchFailed; i += MAX_BATCH_SIZE) {
+    let pending = requests.slice(i, i + MAX_BATCH_SIZE);
+    
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      let response: GraphResponse<{ responses?: BatchResponseItem[] } | GraphError>;
+      try {
+        response = await graphRequest('/$batch', {
+          method: 'POST',
+          body: {
+            requests: pending.map(r => ({
+              id: r.id,
+              method: r.method,
+              url: r.url,
+              body: r.body,
+              // Graph requires a Content-Type for every batched request with a body
+              headers: r.body !== undefined ? { 'Content-Type': 'application/json', ...r.headers } : r.headers,
+            })),
+          },
+        });
+      } catch (error) {
+        response = {
+          data: { error: { code: 'batchRequestFailed', message: error instanceof Error ? error.message : String(error) } },
+          status: 500,
+          ok: false,
+        };
+      }
+      
+      if (!response.ok) {
+        if (RETRYABLE_BATCH_STATUSES.includes(response.status) && attempt < MAX_BATCH_RETRIES) {
+          const retryAfterSeconds = response.retryAfter ?? 1;
+          logger.debug('Graph API batch call throttled, retrying', { status: response.status, retryAfterSeconds, attempt: attempt + 1 });
+          await new Promise(resolve => setTimeout(resolve, retryAfterSeconds * 1000));
+          continue;
+        }
+        
+        const graphError = response.data as GraphError;
+        const message = graphError?.error?.message || `Graph API batch error: ${response.status}`;
+        logger.warn('Graph API batch failed, reporting remaining requests as failed', { status: response.status, message });
+        
+        // Earlier chunks were applied; only this chunk's open requests and the later chunks fail
+        for (const request of [...pending, ...requests.slice(i + MAX_BATCH_SIZE)]) {
+          results.set(request.id, {
+            id: request.id,
+            data: { error: { code: graphError?.error?.code || 'batchFailed', message } } as T,
+            status: response.status,
+            ok: false,
+          });
+        }
+        batchFailed = true;
+        break;
+      }
+      
+      const responses = (response.data as { responses?: BatchResponseItem[] }).responses || [];
+      const throttled: GraphBatchRequest[] = [];
+      let retryAfterSeconds = 1;
+      
+      for (const item of responses) {
+        const request = pending.find(r => r.id === item.id);
+        if (item.status === 429 && request && attempt < MAX_BATCH_RETRIES) {
+          throttled.push(request);
+          retryAfterSeconds = Math.max(retryAfterSeconds, parseInt(item.headers?.['Retry-After'] || '1', 10) || 1);
+          continue;
+        }
+        
+        results.set(item.id, {
+          id: item.id,
+          data: (item.body ?? { success: true }) as T,
+          status: item.status,
+          ok: item.status >= 200 && item.status < 300,
+        });
+      }
+      
+      if (throttled.length > 0) {
+        logger.debug('Graph API batch throttled, retrying', {
+          count: throttled.length,
+          retryAfterSeconds,
+          attempt: attempt + 1,
+        });
+        await new Promise(resolve => setTimeout(resolve, retryAfterSeconds * 1000));
+      }
+      pending = throttled;
+    }
+  }
+  
+  return requests.map(r => results.get(r.id) ?? {
+    id: r.id,
+    data: { error: { code: 'missingResponse', message: 'No response returned for this request' } } as T,
+    status: 500,
+    ok: false,
+  });
+}
+
 /**
  * Remove OData metadata fields to reduce token usage
  */
@@ -0,0 +1,301 @@
+/**
+ * Mail folder helpers for Microsoft Graph API
+ * 
+ * Lets tools accept folders as IDs, well-known names ("inbox") or
+ * display-name paths ("Inbox/Clients/Acme") instead of opaque IDs only.
+ */
+
+import { graphRequest, graphBatch, type GraphError, type GraphResponse } from './client.js';
+import { getRequestCache } from '../utils/context.js';
+import { sanitizePathSegment } from '../utils/sanitize.js';
+import { getMailboxPath } from './mailbox.js';
+
+/**
+ * Well-known folder names that Graph accepts in place of folder IDs
+ * @see https://learn.microsoft.com/en-us/graph/api/resources/mailfolder
+ */
+export const WELL_KNOWN_FOLDER_NAMES = [
+  'inbox',
+  'drafts',
+  'sentitems',
+  'deleteditems',
+  'junkemail',
+  'archive',
+  'outbox',
+  'msgfolderroot',
+] as const;
+
+/** Graph folder IDs are long base64-like strings; shorter values are always names */
+const MIN_FOLDER_ID_LENGTH = 40;
+
+/** Maximum number of close matches listed in error messages */
+const MAX_SUGGESTIONS = 5;
+
+interface FolderEntry {
+  id: string;
+  displayName: string;
+}
+
+/**
+ * Check whether a value is a well-known folder name (case-insensitive)
+ */
+export function isWellKnownFolderName(value: string): boolean {
+  return (WELL_KNOWN_FOLDER_NAMES as readonly string[]).includes(value.trim().toLowerCase());
+}
+
+/**
+ * Check whether a value could be a Graph folder ID
+ * Long display names without spaces look the same, so callers still have to
+ * confirm that the folder exists (see folderIdExists).
+ */
+function looksLikeFolderId(value: string): boolean {
+  return value.length >= MIN_FOLDER_ID_LENGTH && /^[a-zA-Z0-9_=+.-]+$/.test(value) && !value.includes('..');
+}
+
+/**
+ * Check whether a folder with this ID exists in the mailbox
+ */
+async function folderIdExists(folderId: string, mailbox?: string): Promise<boolean> {
+  const response = await graphRequest(`${getMailboxPath(mailbox)}/mailFolders/${folderId}?$select=id`);
+  return response.ok;
+}
+
+/**
+ * List the child folders of a folder (or the top-level folders), cached per request
+ */
+async function listChildFolders(parent: string | null, mailbox?: string): Promise<FolderEntry[]> {
+  const cache = getRequestCache();
+  const cacheKey = `mailFolders:${mailbox ?? 'me'}:${parent ?? 'root'}`;
+  const cached = cache?.get(cacheKey) as FolderEntry[] | undefined;
+  if (cached) {
+    return cached;
+  }
+  
+  const mailFoldersPath = `${getMailboxPath(mailbox)}/mailFolders`;
+  const endpoint = parent ? `${mailFoldersPath}/${parent}/childFolders` : mailFoldersPath;
+  const folders: FolderEntry[] = [];
+  let url: string | undefined = `${endpoint}?$select=id,displayName&$top=250`;
+  
+  while (url) {
+    const response: GraphResponse<{ value?: FolderEntry[]; '@odata.nextLink'?: string } | GraphError> = await graphRequest(url);
+    
+    if (!response.ok) {
+      const graphError = response.data as GraphError;
+      throw new Error(graphError?.error?.message || `Failed to list mail folders: ${response.status}`);
+    }
+    
+    const page = response.data as { value?: FolderEntry[]; '@odata.nextLink'?: string };
+    folders.push(...(page.value || []));
+    url = page['@odata.nextLink'];
+  }
+  
+  cache?.set(cacheKey, folders);
+  return folders;
+}
+
+/**
+ * Levenshtein edit distance, used to suggest close folder names
+ */
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  
+  return row[b.length];
+}
+
+/**
+ * Pick folder names that are close to the requested one
+ */
+function findCloseMatches(name: string, candidates: string[]): string[] {
+  const target = name.toLowerCase();
+  
+  return candidates
+    .map(candidate => ({ candidate, lower: candidate.toLowerCase() }))
+    .filter(({ lower }) =>
+      lower.includes(target) ||
+      target.includes(lower) ||
+      editDistance(lower, target) <= Math.max(2, Math.floor(target.length / 4))
+    )
+    .map(({ candidate }) => candidate)
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Build a "not found" error listing close matches (or the available folders)
+ */
+function folderNotFoundError(path: string, segment: string, siblings: FolderEntry[]): Error {
+  const names = siblings.map(f => f.displayName);
+  const closeMatches = findCloseMatches(segment, names);
+  
+  const hint = closeMatches.length > 0
+    ? `Did you mean: ${closeMatches.map(n => `"${n}"`).join(', ')}?`
+    : names.length > 0
+      ? `Available folders at this level: ${names.slice(0, 10).map(n => `"${n}"`).join(', ')}${names.length > 10 ? ', ...' : ''}`
+      : 'This folder has no subfolders.';
+  
+  return new Error(`Mail folder "${path}" not found: no folder named "${segment}". ${hint}`);
+}
+
+/**
+ * Resolve the first segment of a path: a well-known name or a top-level folder
+ */
+async function resolveRootSegment(segment: string, path: string, mailbox?: string): Promise<string> {
+  if (isWellKnownFolderName(segment)) {
+    return segment.toLowerCase();
+  }
+  
+  const topLevel = await listChildFolders(null, mailbox);
+  const match = topLevel.find(f => f.displayName.toLowerCase() === segment.toLowerCase());
+  if (!match) {
+    throw folderNotFoundError(path, segment, topLevel);
+  }
+  return sanitizePathSegment(match.id, 'folderId');
+}
+
+/**
+ * Resolve a single folder name that is not a well-known name.
+ * Looks at top-level folders and Inbox subfolders, where users keep their folders.
+ */
+async function resolveFolderName(name: string, mailbox?: string): Promise<string> {
+  const [topLevel, inboxChildren] = await Promise.all([
+    listChildFolders(null, mailbox),
+    listChildFolders('inbox', mailbox),
+  ]);
+  
+  const lower = name.toLowerCase();
+  const matches = [
+    ...topLevel.filter(f => f.displayName.toLowerCase() === lower).map(f => ({ ...f, path: f.displayName })),
+    ...inboxChildren.filter(f => f.displayName.toLowerCase() === lower).map(f => ({ ...f, path: `Inbox/${f.displayName}` })),
+  ];
+  
+  if (matches.length === 1) {
+    return sanitizePathSegment(matches[0].id, 'folderId');
+  }
+  
+  if (matches.length > 1) {
+    throw new Error(
+      `Mail folder "${name}" is ambiguous: matches ${matches.map(m => `"${m.path}"`).join(', ')}. ` +
+      'Use the full path (e.g., "Inbox/Clients") or the folder ID.'
+    );
+  }
+  
+  throw folderNotFoundError(name, name, [...topLevel, ...inboxChildren]);
+}
+
+/**
+ * Resolve a folder reference to a value usable in Graph URLs and request bodies
+ * 
+ * Accepts:
+ * - Folder IDs (returned as-is after validation)
+ * - Well-known names: inbox, drafts, sentitems, deleteditems, junkemail, archive, ...
+ * - Display-name paths: "Inbox/Clients/Acme" (case-insensitive, first segment may be a well-known name)
+ * - Single display names: "Acme" (searched in top-level folders and Inbox subfolders)
+ * 
+ * Resolved folders are cached for the duration of the request. Names are
+ * looked up in the given shared/delegated mailbox, or the user's own.
+ * 
+ * @throws Error listing close matches if a folder in the path does not exist or a name is ambiguous
+ */
+export async function resolveMailFolderId(value: string, paramName = 'folderId', mailbox?: string): Promise<string> {
+  const trimmed = value.trim();
+  
+  if (isWellKnownFolderName(trimmed)) {
+    return trimmed.toLowerCase();
+  }
+  
+  const cache = getRequestCache();
+  const cacheKey = `mailFolderPath:${mailbox ?? 'me'}:${trimmed.toLowerCase()}`;
+  const cached = cache?.get(cacheKey) as string | undefined;
+  if (cached) {
+    return cached;
+  }
+  
+  if (looksLikeFolderId(trimmed) && await folderIdExists(sanitizePathSegment(trimmed, paramName), mailbox)) {
+    cache?.set(cacheKey, trimmed);
+    return trimmed;
+  }
+  
+  const segments = trimmed.split('/').map(s => s.trim()).filter(s => s.length > 0);
+  if (segments.length === 0) {
+    throw new Error(`Invalid ${paramName}: folder path is empty`);
+  }
+  
+  let folderId = segments.length === 1
+    ? await resolveFolderName(segments[0], mailbox)
+    : await resolveRootSegment(segments[0], trimmed, mailbox);
+  
+  for (const segment of segments.slice(1)) {
+    const children = await listChildFolders(folderId, mailbox);
+    const match = children.find(f => f.displayName.toLowerCase() === segment.toLowerCase());
+    if (!match) {
+      throw folderNotFoundError(trimmed, segment, children);
+    }
+    folderId = sanitizePathSegment(match.id, 'folderId');
+  }
+  
+  cache?.set(cacheKey, folderId);
+  return folderId;
+}
+
+/**
+ * Resolve a folder reference to its actual Graph ID
+ * 
+ * Like resolveMailFolderId, but well-known names are looked up too, for
+ * APIs that only accept real IDs (e.g. the moveToFolder action of message rules).
+ */
+export async function getMailFolderId(value: string, paramName = 'folderId'): Promise<string> {
+  const resolved = await resolveMailFolderId(value, paramName);
+  if (!isWellKnownFolderName(resolved)) {
+    return resolved;
+  }
+  
+  const response = await graphRequest<{ id?: string } | GraphError>(`/me/mailFolders/${resolved}?$select=id`);
+  const id = (response.data as { id?: string })?.id;
+  if (!response.ok || !id) {
+    const graphError = response.data as GraphError;
+    throw new Error(graphError?.error?.message || `Failed to look up mail folder "${value}": ${response.status}`);
+  }
+  return id;
+}
+
+/**
+ * Check whether a resolved folder (from resolveMailFolderId) is one of the
+ * mailbox's well-known folders, whichever way it was referenced
+ */
+export async function isWellKnownFolder(folderId: string, mailbox?: string): Promise<boolean> {
+  if (isWellKnownFolderName(folderId)) {
+    return true;
+  }
+  
+  const cache = getRequestCache();
+  const cacheKey = `wellKnownFolderIds:${mailbox ?? 'me'}`;
+  let ids = cache?.get(cacheKey) as Set<string> | undefined;
+  
+  if (!ids) {
+    const mailFoldersPath = `${getMailboxPath(mailbox)}/mailFolders`;
+    const responses = await graphBatch<{ id?: string }>(WELL_KNOWN_FOLDER_NAMES.map(name => ({
+      id: name,
+      method: 'GET' as const,
+      url: `${mailFoldersPath}/${name}?$select=id`,
+    })));
+    
+    // Mailboxes without an archive (or outbox) answer 404 for those names
+    ids = new Set(responses.filter(r => r.ok && r.data.id).map(r => r.data.id!));
+    cache?.set(cacheKey, ids);
+  }
+  
+  return ids.has(folderId);
+}
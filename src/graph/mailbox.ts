@@ -0,0 +1,111 @@
+/**
+ * Mailbox helpers for Microsoft Graph API
+ * 
+ * Gives tools access to the user's time zone and working hours so they
+ * don't have to rely on hard-coded defaults, and resolves which mailbox
+ * (the user's own or a shared/delegated one) a request goes to.
+ */
+
+import { graphRequest, type GraphError, type GraphResponse } from './client.js';
+import { getRequestCache } from '../utils/context.js';
+import { sanitizeEmailAddress } from '../utils/sanitize.js';
+import logger from '../utils/logger.js';
+
+/** Fallback time zone when mailbox settings are unavailable */
+export const DEFAULT_TIME_ZONE = 'Europe/Berlin';
+
+export interface WorkingHours {
+  daysOfWeek?: string[];
+  startTime?: string;
+  endTime?: string;
+  timeZone?: { name?: string };
+}
+
+export interface MailboxSettings {
+  timeZone?: string;
+  language?: { locale?: string; displayName?: string };
+  dateFormat?: string;
+  timeFormat?: string;
+  workingHours?: WorkingHours;
+  automaticRepliesSetting?: Record<string, unknown>;
+}
+
+/** What to ask for when another user's mailbox or calendar is not accessible */
+const DELEGATE_ACCESS_HINTS = {
+  calendar: 'Ask them to share their calendar with you in Outlook (view access for reading, edit or delegate access for changes).',
+  mailbox: 'An Exchange admin has to grant you Full Access (reading) or Send As / Send on Behalf (sending) on this mailbox.',
+};
+
+/** Graph error codes for missing rights on another user's mailbox */
+const ACCESS_DENIED_CODES = ['ErrorAccessDenied', 'ErrorSendAsDenied'];
+
+/**
+ * Fetch the user's mailbox settings, cached for the duration of the request
+ * Returns undefined if the settings cannot be read (e.g. missing MailboxSettings.Read consent).
+ */
+export async function getMailboxSettings(): Promise<MailboxSettings | undefined> {
+  const cache = getRequestCache();
+  if (cache?.has('mailboxSettings')) {
+    return cache.get('mailboxSettings') as MailboxSettings | undefined;
+  }
+  
+  let settings: MailboxSettings | undefined;
+  try {
+    const response = await graphRequest<MailboxSettings>('/me/mailboxSettings');
+    if (response.ok) {
+      settings = response.data;
+    } else {
+      logger.debug('Mailbox settings unavailable, using defaults', { status: response.status });
+    }
+  } catch (error) {
+    logger.debug('Mailbox settings unavailable, using defaults', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  
+  cache?.set('mailboxSettings', settings);
+  return settings;
+}
+
+/**
+ * Get the user's mailbox time zone, falling back to DEFAULT_TIME_ZONE
+ * Graph accepts both the Windows and IANA names it may return here.
+ */
+export async function getDefaultTimeZone(): Promise<string> {
+  const settings = await getMailboxSettings();
+  return settings?.timeZone || DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Graph path of the mailbox to work in: the signed-in user's (/me), or
+ * another user's shared or delegated mailbox (/users/{upn})
+ */
+export function getMailboxPath(mailbox?: string): string {
+  return mailbox ? `/users/${sanitizeEmailAddress(mailbox, 'mailbox')}` : '/me';
+}
+
+/**
+ * Replace Graph's access errors on another user's mailbox with a clear message
+ * Graph answers 403 (ErrorAccessDenied, ErrorSendAsDenied) when the mailbox
+ * or calendar is not shared with the user or the token lacks the .Shared scopes.
+ */
+export function withDelegateAccessError<T>(
+  response: GraphResponse<T>,
+  mailbox: string | undefined,
+  resource: keyof typeof DELEGATE_ACCESS_HINTS
+): GraphResponse<T> {
+  const code = (response.data as GraphError | undefined)?.error?.code;
+  if (!mailbox || response.ok || (response.status !== 403 && !ACCESS_DENIED_CODES.includes(code ?? ''))) {
+    return response;
+  }
+  
+  return {
+    ...response,
+    data: {
+      error: {
+        code: code || 'ErrorAccessDenied',
+        message: `No delegate access to the ${resource} of ${mailbox}. ${DELEGATE_ACCESS_HINTS[resource]}`,
+      },
+    } as T,
+  };
+}
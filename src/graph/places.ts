@@ -0,0 +1,308 @@
+/**
+ * Room and room list helpers for Microsoft Graph API
+ *
+ * Rooms are tenant-wide and change rarely, so they are cached per tenant
+ * instead of being fetched on every request. Room lists (usually one per
+ * building) let filtered lookups load only the rooms they need.
+ */
+
+import { graphRequest, type GraphError } from './client.js';
+import { sanitizePathSegment, sanitizeEmailAddress } from '../utils/sanitize.js';
+import { getContextTenantId } from '../utils/context.js';
+import logger from '../utils/logger.js';
+
+/** How long room data stays cached per tenant */
+const ROOM_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/** Safety limit for paging through /places */
+const MAX_PLACE_PAGES = 20;
+
+export interface Room {
+  displayName: string;
+  emailAddress: string;
+  building?: string;
+  floor?: string;
+  city?: string;
+  capacity?: number;
+  isWheelChairAccessible?: boolean;
+  audioDeviceName?: string;
+  videoDeviceName?: string;
+  displayDeviceName?: string;
+  roomList?: string;
+}
+
+export interface RoomList {
+  id: string;
+  displayName: string;
+  emailAddress: string;
+  city?: string;
+}
+
+export interface RoomFilters {
+  roomList?: string;
+  building?: string;
+  city?: string;
+  floor?: string;
+  minCapacity?: number;
+  wheelchairAccessible?: boolean;
+  hasAudio?: boolean;
+  hasVideo?: boolean;
+  hasDisplay?: boolean;
+}
+
+interface GraphPlace {
+  id?: string;
+  displayName?: string;
+  emailAddress?: string;
+  building?: string;
+  floorLabel?: string;
+  floorNumber?: number;
+  capacity?: number;
+  isWheelChairAccessible?: boolean;
+  audioDeviceName?: string;
+  videoDeviceName?: string;
+  displayDeviceName?: string;
+  address?: { city?: string };
+}
+
+interface TenantPlaces {
+  expiresAt: number;
+  roomLists?: RoomList[];
+  allRooms?: Room[];
+  roomsByList: Map<string, Room[]>;
+}
+
+const placesCache = new Map<string, TenantPlaces>();
+
+/**
+ * Get the cache entry for the current tenant, resetting it once expired
+ * Returns a throwaway entry when the tenant is unknown.
+ */
+function getTenantPlaces(): TenantPlaces {
+  const tenantId = getContextTenantId();
+  const now = Date.now();
+
+  if (!tenantId) {
+    return { expiresAt: now, roomsByList: new Map() };
+  }
+
+  let entry = placesCache.get(tenantId);
+  if (!entry || entry.expiresAt <= now) {
+    entry = { expiresAt: now + ROOM_CACHE_TTL_MS, roomsByList: new Map() };
+    placesCache.set(tenantId, entry);
+  }
+  return entry;
+}
+
+/**
+ * Fetch every page of a /places collection
+ */
+async function fetchPlaces(endpoint: string): Promise<GraphPlace[]> {
+  const places: GraphPlace[] = [];
+  let url: string | undefined = endpoint;
+
+  for (let page = 0; url && page < MAX_PLACE_PAGES; page++) {
+    const response = await graphRequest<{ value?: GraphPlace[]; '@odata.nextLink'?: string } | GraphError>(url);
+
+    if (!response.ok) {
+      const graphError = response.data as GraphError;
+      throw new Error(graphError?.error?.message || `Failed to list rooms: ${response.status}`);
+    }
+
+    const data = response.data as { value?: GraphPlace[]; '@odata.nextLink'?: string };
+    places.push(...(data.value || []));
+    url = data['@odata.nextLink'];
+  }
+
+  if (url) {
+    logger.warn('Room listing truncated', { endpoint, pages: MAX_PLACE_PAGES });
+  }
+
+  return places;
+}
+
+/**
+ * Reduce a Graph room to the fields tools work with
+ */
+function toRoom(place: GraphPlace, roomList?: string): Room {
+  return {
+    displayName: place.displayName || 'Unknown Room',
+    emailAddress: place.emailAddress || '',
+    building: place.building || undefined,
+    floor: place.floorLabel || (place.floorNumber !== undefined && place.floorNumber !== null ? String(place.floorNumber) : undefined),
+    city: place.address?.city || undefined,
+    capacity: place.capacity ?? undefined,
+    isWheelChairAccessible: place.isWheelChairAccessible ?? undefined,
+    audioDeviceName: place.audioDeviceName || undefined,
+    videoDeviceName: place.videoDeviceName || undefined,
+    displayDeviceName: place.displayDeviceName || undefined,
+    roomList,
+  };
+}
+
+/**
+ * List all room lists in the tenant (cached per tenant)
+ */
+export async function listRoomLists(): Promise<RoomList[]> {
+  const cache = getTenantPlaces();
+  if (cache.roomLists) {
+    return cache.roomLists;
+  }
+
+  const places = await fetchPlaces('/places/microsoft.graph.roomlist?$top=999');
+  cache.roomLists = places
+    .filter(p => p.id && p.emailAddress)
+    .map(p => ({
+      id: p.id!,
+      displayName: p.displayName || p.emailAddress!,
+      emailAddress: p.emailAddress!,
+      city: p.address?.city || undefined,
+    }));
+  return cache.roomLists;
+}
+
+/**
+ * List the rooms of one room list (cached per tenant)
+ */
+async function listRoomsInList(roomList: RoomList): Promise<Room[]> {
+  const cache = getTenantPlaces();
+  const cached = cache.roomsByList.get(roomList.id);
+  if (cached) {
+    return cached;
+  }
+
+  const places = await fetchPlaces(
+    `/places/${sanitizePathSegment(roomList.id, 'roomListId')}/microsoft.graph.roomlist/rooms?$top=999`
+  );
+  const rooms = places
+    .map(p => toRoom(p, roomList.displayName))
+    .map(r => ({ ...r, city: r.city ?? roomList.city }))
+    .filter(r => r.emailAddress);
+  cache.roomsByList.set(roomList.id, rooms);
+  return rooms;
+}
+
+/**
+ * List every room in the tenant (cached per tenant)
+ */
+async function listAllRooms(): Promise<Room[]> {
+  const cache = getTenantPlaces();
+  if (cache.allRooms) {
+    return cache.allRooms;
+  }
+
+  const places = await fetchPlaces('/places/microsoft.graph.room?$top=999');
+  cache.allRooms = places.map(p => toRoom(p)).filter(r => r.emailAddress);
+  return cache.allRooms;
+}
+
+/**
+ * Look up a single room by email address
+ * Uses cached room data when available. Returns undefined if the address is not a room.
+ */
+export async function getRoom(email: string): Promise<Room | undefined> {
+  const address = sanitizeEmailAddress(email, 'roomEmail').toLowerCase();
+  const cache = getTenantPlaces();
+
+  const cachedRooms = [...(cache.allRooms ?? []), ...[...cache.roomsByList.values()].flat()];
+  const cached = cachedRooms.find(r => r.emailAddress.toLowerCase() === address);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await graphRequest<GraphPlace & { '@odata.type'?: string }>(`/places/${address}`);
+  if (!response.ok || response.data['@odata.type'] !== '#microsoft.graph.room') {
+    return undefined;
+  }
+  return toRoom(response.data);
+}
+
+/**
+ * Case-insensitive "contains" match
+ */
+function matchesText(value: string | undefined, query: string): boolean {
+  return !!value && value.toLowerCase().includes(query.toLowerCase());
+}
+
+/**
+ * Pick the room lists relevant for the filters
+ * Returns undefined when all rooms should be searched instead.
+ */
+async function selectRoomLists(filters: RoomFilters): Promise<RoomList[] | undefined> {
+  if (!filters.roomList && !filters.building && !filters.city) {
+    return undefined;
+  }
+
+  const roomLists = await listRoomLists();
+
+  if (filters.roomList) {
+    const query = filters.roomList;
+    const matches = roomLists.filter(l =>
+      l.emailAddress.toLowerCase() === query.toLowerCase() || matchesText(l.displayName, query)
+    );
+    if (matches.length === 0) {
+      const available = roomLists.map(l => l.displayName).slice(0, 20).join(', ');
+      throw new Error(`No room list matches "${query}". Available room lists: ${available || 'none'}`);
+    }
+    return matches;
+  }
+
+  // Room lists are usually named after buildings; fall back to all rooms if none match
+  const matches = roomLists.filter(l =>
+    (filters.building && matchesText(l.displayName, filters.building)) ||
+    (filters.city && (matchesText(l.city, filters.city) || matchesText(l.displayName, filters.city)))
+  );
+  return matches.length > 0 ? matches : undefined;
+}
+
+/**
+ * Find rooms matching the filters
+ * Uses room lists when filtering by room list, building or city so large
+ * tenants don't have to load every room.
+ */
+export async function findRooms(filters: RoomFilters = {}): Promise<Room[]> {
+  const roomLists = await selectRoomLists(filters);
+
+  let rooms: Room[];
+  if (roomLists) {
+    const perList = await Promise.all(roomLists.map(listRoomsInList));
+    rooms = perList.flat();
+  } else {
+    rooms = await listAllRooms();
+  }
+
+  return rooms.filter(room => {
+    if (filters.building && !matchesText(room.building, filters.building) && !matchesText(room.roomList, filters.building)) {
+      return false;
+    }
+    if (filters.city && !matchesText(room.city, filters.city) && !matchesText(room.roomList, filters.city)) {
+      return false;
+    }
+    if (filters.floor && room.floor?.toLowerCase() !== filters.floor.toLowerCase()) {
+      return false;
+    }
+    if (filters.minCapacity !== undefined && (room.capacity ?? 0) < filters.minCapacity) {
+      return false;
+    }
+    if (filters.wheelchairAccessible && !room.isWheelChairAccessible) {
+      return false;
+    }
+    if (filters.hasAudio && !room.audioDeviceName) {
+      return false;
+    }
+    if (filters.hasVideo && !room.videoDeviceName) {
+      return false;
+    }
+    if (filters.hasDisplay && !room.displayDeviceName) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Check whether any room filter is set
+ */
+export function hasRoomFilters(filters: RoomFilters): boolean {
+  return Object.values(filters).some(value => value !== undefined);
+}
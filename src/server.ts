@@ -30,7 +30,9 @@ export function createApp() {
   app.set('trust proxy', true);
   
   // Parse request bodies with size limits to prevent DoS
-  app.use(express.json({ limit: '1mb' }));
+  // JSON bodies may carry base64 attachments (4/3 of the raw size) on top of the regular payload
+  const jsonBodyLimit = Math.ceil(config.maxAttachmentUploadBytes * 4 / 3) + 1024 * 1024;
+  app.use(express.json({ limit: jsonBodyLimit }));
   app.use(express.urlencoded({ extended: true, limit: '1mb' }));
   
   // CORS configuration
@@ -113,6 +115,7 @@ export function createApp() {
     const context = {
       accessToken: req.auth.token,
       userId: req.auth.userId,
+      tenantId: req.auth.tenantId,
     };
     
     await runWithContext(context, async () => {
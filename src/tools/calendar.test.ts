@@ -0,0 +1,257 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GraphRequestOptions } from '../graph/client.js';
+
+const graphRequest = vi.hoisted(() => vi.fn());
+
+vi.mock('../graph/client.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../graph/client.js')>(),
+  graphRequest,
+}));
+
+vi.stubEnv('MS365_MCP_CLIENT_ID', 'test-client');
+
+const { calendarToolDefinitions } = await import('./calendar.js');
+
+function getHandler(name: string) {
+  const tool = calendarToolDefinitions.find(t => t.name === name);
+  if (!tool) throw new Error(`Unknown tool ${name}`);
+  return tool.handler;
+}
+
+function ok(data: unknown) {
+  return { ok: true, status: 200, data };
+}
+
+const master = {
+  id: 'master-1',
+  subject: 'Weekly sync',
+  attendees: [
+    { emailAddress: { address: 'alex@example.com' }, type: 'required', status: { response: 'accepted' } },
+    { emailAddress: { address: 'sam@example.com' }, type: 'required' },
+  ],
+  recurrence: {
+    pattern: { type: 'weekly', interval: 1, daysOfWeek: ['tuesday'] },
+    range: { type: 'noEnd', startDate: '2026-01-06', recurrenceTimeZone: 'Europe/Berlin' },
+  },
+};
+
+describe('update-calendar-event with applyTo "thisAndFollowing"', () => {
+  beforeEach(() => {
+    graphRequest.mockReset();
+  });
+
+  it('applies attendee changes when starting at the first occurrence', async () => {
+    graphRequest.mockImplementation(async (endpoint: string, options: GraphRequestOptions = {}) => {
+      if (options.method === 'PATCH') return ok({ id: 'master-1' });
+      if (endpoint.includes('$select=type,seriesMasterId')) return ok({ type: 'occurrence', seriesMasterId: 'master-1' });
+      if (endpoint.startsWith('/me/events/master-1?')) return ok(master);
+      if (endpoint.startsWith('/me/events/occurrence-1?')) {
+        return ok({
+          id: 'occurrence-1',
+          type: 'occurrence',
+          start: { dateTime: '2026-01-06T10:00:00', timeZone: 'Europe/Berlin' },
+          end: { dateTime: '2026-01-06T10:30:00', timeZone: 'Europe/Berlin' },
+        });
+      }
+      throw new Error(`Unexpected request: ${endpoint}`);
+    });
+
+    const result = await getHandler('update-calendar-event')({
+      eventId: 'occurrence-1',
+      applyTo: 'thisAndFollowing',
+      addAttendees: [{ email: 'maria@example.com' }],
+      removeAttendees: ['sam@example.com'],
+    });
+
+    expect(result.content[0].text).not.toMatch(/error/i);
+    const patches = graphRequest.mock.calls.filter(([, options]) => options?.method === 'PATCH');
+    expect(patches).toHaveLength(1);
+    expect(patches[0][0]).toBe('/me/events/master-1');
+    expect(patches[0][1].body.attendees).toEqual([
+      { emailAddress: { address: 'alex@example.com' }, type: 'required', status: { response: 'accepted' } },
+      { emailAddress: { address: 'maria@example.com' }, type: 'required' },
+    ]);
+  });
+});
+
+describe('update-calendar-event splitting a numbered series', () => {
+  beforeEach(() => {
+    graphRequest.mockReset();
+  });
+
+  // Weekly on Tuesdays at 10:00 Berlin time (09:00 UTC), 10 occurrences
+  const numberedMaster = {
+    ...master,
+    calendar: { id: 'project-calendar' },
+    recurrence: {
+      pattern: { type: 'weekly', interval: 1, daysOfWeek: ['tuesday'] },
+      range: { type: 'numbered', startDate: '2026-01-06', numberOfOccurrences: 10, recurrenceTimeZone: 'Europe/Berlin' },
+    },
+  };
+  const instances = ['2026-01-06', '2026-01-13', '2026-01-20', '2026-01-27'].map((date, index) => ({
+    id: `occurrence-${index}`,
+    utcStart: `${date}T09:00:00Z`,
+    utcEnd: `${date}T09:30:00Z`,
+    start: { dateTime: `${date}T10:00:00.0000000`, timeZone: 'Europe/Berlin' },
+  }));
+
+  /** Graph reads window bounds without an offset as UTC */
+  function parseBound(value: string) {
+    return Date.parse(/Z|[+-]\d{2}:\d{2}$/.test(value) ? value : `${value}Z`);
+  }
+
+  it('counts only the occurrences before the split in Europe/Berlin', async () => {
+    graphRequest.mockImplementation(async (endpoint: string, options: GraphRequestOptions = {}) => {
+      if (options.method === 'POST') return ok({ id: 'new-series' });
+      if (options.method === 'PATCH') return ok({ id: 'master-1' });
+      if (endpoint.includes('$select=type,seriesMasterId')) return ok({ type: 'occurrence', seriesMasterId: 'master-1' });
+      if (endpoint.startsWith('/me/events/master-1/instances?')) {
+        const query = new URLSearchParams(endpoint.split('?')[1]);
+        const from = parseBound(query.get('startDateTime')!);
+        const to = parseBound(query.get('endDateTime')!);
+        return ok({
+          value: instances
+            .filter(i => Date.parse(i.utcStart) < to && Date.parse(i.utcEnd) > from)
+            .map(i => ({ id: i.id, start: i.start })),
+        });
+      }
+      if (endpoint.startsWith('/me/events/master-1?')) return ok(numberedMaster);
+      if (endpoint.startsWith('/me/events/occurrence-2?')) {
+        return ok({
+          id: 'occurrence-2',
+          type: 'occurrence',
+          start: { dateTime: '2026-01-20T10:00:00.0000000', timeZone: 'Europe/Berlin' },
+          end: { dateTime: '2026-01-20T10:30:00.0000000', timeZone: 'Europe/Berlin' },
+        });
+      }
+      throw new Error(`Unexpected request: ${endpoint}`);
+    });
+
+    const result = await getHandler('update-calendar-event')({
+      eventId: 'occurrence-2',
+      applyTo: 'thisAndFollowing',
+      subject: 'Weekly sync (new format)',
+    });
+
+    expect(result.content[0].text).not.toMatch(/error/i);
+    const [createdPath, created] = graphRequest.mock.calls.find(([, options]) => options?.method === 'POST')!;
+    expect(createdPath).toBe('/me/calendars/project-calendar/events');
+    expect(created.body.recurrence.range).toMatchObject({
+      type: 'numbered',
+      startDate: '2026-01-20',
+      numberOfOccurrences: 8,
+    });
+  });
+
+  it('fails instead of keeping the full count when earlier occurrences cannot be loaded', async () => {
+    graphRequest.mockImplementation(async (endpoint: string, options: GraphRequestOptions = {}) => {
+      if (options.method) throw new Error(`Unexpected ${options.method} ${endpoint}`);
+      if (endpoint.includes('$select=type,seriesMasterId')) return ok({ type: 'occurrence', seriesMasterId: 'master-1' });
+      if (endpoint.startsWith('/me/events/master-1/instances?')) return { ok: false, status: 503, data: {} };
+      if (endpoint.startsWith('/me/events/master-1?')) return ok(numberedMaster);
+      return ok({
+        id: 'occurrence-2',
+        type: 'occurrence',
+        start: { dateTime: '2026-01-20T10:00:00.0000000', timeZone: 'Europe/Berlin' },
+        end: { dateTime: '2026-01-20T10:30:00.0000000', timeZone: 'Europe/Berlin' },
+      });
+    });
+
+    const result = await getHandler('update-calendar-event')({
+      eventId: 'occurrence-2',
+      applyTo: 'thisAndFollowing',
+      subject: 'Weekly sync (new format)',
+    });
+
+    expect(result.content[0].text).toContain('Failed to count earlier occurrences');
+  });
+});
+
+describe('find-meeting-times without meeting hours', () => {
+  beforeEach(() => {
+    graphRequest.mockReset();
+  });
+
+  function suggestion(start: string, end: string) {
+    return {
+      confidence: 100,
+      meetingTimeSlot: {
+        start: { dateTime: `${start}.0000000`, timeZone: 'W. Europe Standard Time' },
+        end: { dateTime: `${end}.0000000`, timeZone: 'W. Europe Standard Time' },
+      },
+      attendeeAvailability: [],
+    };
+  }
+
+  it('limits suggestions to the working hours and days from the mailbox settings', async () => {
+    graphRequest.mockImplementation(async (endpoint: string) => {
+      if (endpoint === '/me/mailboxSettings') {
+        return ok({
+          timeZone: 'W. Europe Standard Time',
+          workingHours: {
+            daysOfWeek: ['monday', 'tuesday', 'wednesday', 'thursday'],
+            startTime: '08:00:00.0000000',
+            endTime: '16:00:00.0000000',
+            timeZone: { name: 'W. Europe Standard Time' },
+          },
+        });
+      }
+      if (endpoint === '/me/findMeetingTimes') {
+        return ok({
+          meetingTimeSuggestions: [
+            suggestion('2026-01-19T07:00:00', '2026-01-19T07:30:00'),
+            suggestion('2026-01-19T09:00:00', '2026-01-19T09:30:00'),
+            suggestion('2026-01-23T09:00:00', '2026-01-23T09:30:00'),
+            suggestion('2026-01-20T15:30:00', '2026-01-20T16:00:00'),
+          ],
+        });
+      }
+      return { ok: false, status: 403, data: { error: { code: 'ErrorAccessDenied', message: 'Access denied' } } };
+    });
+
+    const result = await getHandler('find-meeting-times')({
+      attendees: [{ email: 'alex@example.com' }],
+      durationMinutes: 30,
+      searchWindowStart: '2026-01-19T00:00:00',
+      searchWindowEnd: '2026-01-23T23:59:59',
+      isOnlineMeeting: true,
+    });
+
+    const [, options] = graphRequest.mock.calls.find(([endpoint]) => endpoint === '/me/findMeetingTimes')!;
+    expect(options.headers).toEqual({ Prefer: 'outlook.timezone="W. Europe Standard Time"' });
+    const text = result.content[0].text;
+    expect(text).toContain('2026-01-19T09:00:00');
+    expect(text).toContain('2026-01-20T15:30:00');
+    expect(text).not.toContain('2026-01-19T07:00:00');
+    expect(text).not.toContain('2026-01-23T09:00:00');
+  });
+});
+
+describe('list-event-instances', () => {
+  beforeEach(() => {
+    graphRequest.mockReset();
+  });
+
+  it('reports scheduled dates without an occurrence as removed', async () => {
+    // 2026-01-20 was deleted, 2026-01-27 was moved to the next day
+    const occurrences = [
+      { id: 'occurrence-0', type: 'occurrence', start: { dateTime: '2026-01-13T10:00:00.0000000', timeZone: 'Europe/Berlin' }, originalStart: '2026-01-13T09:00:00Z' },
+      { id: 'occurrence-1', type: 'exception', start: { dateTime: '2026-01-28T10:00:00.0000000', timeZone: 'Europe/Berlin' }, originalStart: '2026-01-27T09:00:00Z' },
+      { id: 'occurrence-2', type: 'occurrence', start: { dateTime: '2026-02-03T10:00:00.0000000', timeZone: 'Europe/Berlin' }, originalStart: '2026-02-03T09:00:00Z' },
+    ];
+    graphRequest.mockImplementation(async (endpoint: string) => {
+      if (endpoint.includes('$select=type,seriesMasterId')) return ok({ type: 'seriesMaster' });
+      if (endpoint.startsWith('/me/events/master-1/instances?')) return ok({ value: occurrences });
+      if (endpoint.startsWith('/me/events/master-1?')) return ok(master);
+      throw new Error(`Unexpected request: ${endpoint}`);
+    });
+
+    const result = await getHandler('list-event-instances')({
+      eventId: 'master-1',
+      startDateTime: '2026-01-12T00:00:00',
+      endDateTime: '2026-02-08T23:59:59',
+    });
+
+    expect(result.content[0].text).toContain('removedOccurrences[1]: 2026-01-20\n');
+  });
+});
@@ -3,9 +3,32 @@
  */
 
 import { z } from 'zod';
-import { graphRequest, handleGraphResponse, formatErrorResponse } from '../graph/client.js';
+import { graphRequest, handleGraphResponse, formatErrorResponse, type GraphError, type GraphResponse } from '../graph/client.js';
 import { serializeResponse } from '../utils/tonl.js';
-import { sanitizePathSegment, sanitizeODataString, sanitizeTimezone } from '../utils/sanitize.js';
+import { sanitizePathSegment, sanitizeODataString, sanitizeTimezone, sanitizeEmailAddress } from '../utils/sanitize.js';
+import { getDefaultTimeZone, getMailboxSettings, getMailboxPath, withDelegateAccessError } from '../graph/mailbox.js';
+import { findRooms, getRoom, hasRoomFilters, type Room } from '../graph/places.js';
+import {
+  listAttachments,
+  readAttachment,
+  attachmentInputSchema,
+  prepareAttachments,
+  addAttachments,
+  type PreparedAttachment,
+} from '../graph/attachments.js';
+import { stripHtml } from '../utils/html.js';
+import {
+  parseIcs,
+  serializeIcs,
+  getEventEnd,
+  isKnownTimeZone,
+  localToUtc,
+  utcToLocal,
+  WEEKDAY_CODES,
+  type IcsDateTime,
+  type IcsEvent,
+  type IcsRecurrenceRule,
+} from '../utils/ics.js';
 
 // ============================================================================
 // Day of Week Helper - Prevents LLM date calculation errors
@@ -66,42 +89,11 @@ function enrichEventsWithDayInfo(events: unknown[]): unknown[] {
 // Room Management
 // ============================================================================
 
-/**
- * Fetch all rooms from Microsoft Graph API
- * Returns minimal room data to reduce token usage
- */
-async function fetchAllRooms(): Promise<Array<{
-  displayName: string;
-  emailAddress: string;
-  building?: string;
-  city?: string;
-}>> {
-  try {
-    // Fetch rooms using /places endpoint
-    const response = await graphRequest<{ value: unknown[] }>('/places/microsoft.graph.room');
-    const rooms = (response.data as { value: unknown[] })?.value || [];
-    
-    // Extract only essential fields
-    return rooms.map((room: unknown) => {
-      const r = room as {
-        displayName?: string;
-        emailAddress?: string;
-        building?: string;
-        address?: { city?: string };
-      };
-      
-      return {
-        displayName: r.displayName || 'Unknown Room',
-        emailAddress: r.emailAddress || '',
-        building: r.building,
-        city: r.address?.city,
-      };
-    }).filter(r => r.emailAddress); // Only include rooms with email
-  } catch (error) {
-    // If room fetch fails, return empty array (graceful degradation)
-    return [];
-  }
-}
+/** Upper bound on rooms checked by find-meeting-times, so requests stay within Graph limits */
+const MAX_MEETING_ROOMS = 100;
+
+/** Interval between checks of a room's response to a booking */
+const ROOM_RESPONSE_POLL_MS = 3000;
 
 /**
  * Process findMeetingTimes response to reduce token usage
@@ -111,7 +103,7 @@ async function fetchAllRooms(): Promise<Array<{
  */
 function optimizeMeetingTimesResponse(
   suggestions: Array<Record<string, unknown>>,
-  roomMetadata: Array<{ emailAddress: string; displayName: string; building?: string; city?: string }>
+  roomMetadata: Room[]
 ): Array<Record<string, unknown>> {
   // Create room lookup map
   const roomMap = new Map(
@@ -174,11 +166,1213 @@ function optimizeMeetingTimesResponse(
   });
 }
 
-// ============================================================================
-// Schemas
-// ============================================================================
+// ============================================================================
+// Attendees
+// ============================================================================
+
+interface EventAttendee {
+  emailAddress?: { address?: string; name?: string };
+  type?: string;
+  status?: { response?: string; time?: string };
+}
+
+interface AttendeeChanges {
+  add?: Array<{ email: string; type?: 'required' | 'optional' | 'resource' }>;
+  remove?: string[];
+}
+
+/**
+ * Merge attendee additions and removals into an event's attendee list
+ * Matches by email (case-insensitive); existing attendees keep their
+ * response status, added ones that are already invited only change type.
+ */
+function mergeAttendees(existing: EventAttendee[], changes: AttendeeChanges): EventAttendee[] {
+  const removed = new Set((changes.remove ?? []).map(email => email.toLowerCase()));
+  const merged = existing.filter(a => !removed.has(a.emailAddress?.address?.toLowerCase() ?? ''));
+  
+  for (const attendee of changes.add ?? []) {
+    const address = attendee.email.toLowerCase();
+    const current = merged.find(a => a.emailAddress?.address?.toLowerCase() === address);
+    if (current) {
+      if (attendee.type) current.type = attendee.type;
+    } else {
+      merged.push({ emailAddress: { address: attendee.email }, type: attendee.type || 'required' });
+    }
+  }
+  
+  return merged;
+}
+
+// ============================================================================
+// Recurrence
+// ============================================================================
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+/**
+ * Friendly recurrence input, mapped to Graph's patternedRecurrence
+ */
+const recurrenceSchema = z.object({
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+  interval: z.number().min(1).max(99).optional().default(1),
+  daysOfWeek: z.array(z.enum(WEEKDAYS)).min(1).optional(),
+  dayOfMonth: z.number().min(1).max(31).optional(),
+  weekOfMonth: z.enum(['first', 'second', 'third', 'fourth', 'last']).optional(),
+  month: z.number().min(1).max(12).optional(),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'endDate must be YYYY-MM-DD').optional(),
+  occurrences: z.number().min(1).max(999).optional(),
+});
+
+type RecurrenceInput = z.infer<typeof recurrenceSchema>;
+
+interface PatternedRecurrence {
+  pattern: Record<string, unknown>;
+  range: {
+    type: 'endDate' | 'noEnd' | 'numbered';
+    startDate: string;
+    endDate?: string;
+    numberOfOccurrences?: number;
+    recurrenceTimeZone?: string;
+  };
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Number of calendar days between two local date/times
+ */
+function daysBetween(from: string, to: string): number {
+  const fromDay = Date.parse(`${from.slice(0, 10)}T12:00:00Z`);
+  const toDay = Date.parse(`${to.slice(0, 10)}T12:00:00Z`);
+  return Math.round((toDay - fromDay) / 86_400_000);
+}
+
+const WEEK_INDEXES = ['first', 'second', 'third', 'fourth'];
+
+/**
+ * Check whether a date is the given week (first..fourth, last) of its month
+ */
+function isWeekOfMonth(date: Date, index: string): boolean {
+  const day = date.getUTCDate();
+  if (index === 'last') {
+    const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    return day + 7 > lastDay;
+  }
+  return WEEK_INDEXES.indexOf(index) === Math.floor((day - 1) / 7);
+}
+
+/**
+ * List the local dates a Graph recurrence produces between two YYYY-MM-DD dates (inclusive)
+ * Monthly and yearly days past the end of a shorter month fall on its last day, as in Outlook.
+ */
+function expandRecurrenceDates(recurrence: PatternedRecurrence, from: string, to: string): string[] {
+  const { range } = recurrence;
+  const pattern = recurrence.pattern as {
+    type?: string;
+    interval?: number;
+    daysOfWeek?: string[];
+    dayOfMonth?: number;
+    month?: number;
+    index?: string;
+    firstDayOfWeek?: string;
+  };
+  const interval = pattern.interval || 1;
+  const days = pattern.daysOfWeek?.map(d => d.toLowerCase()) ?? [];
+  const first = new Date(`${range.startDate}T12:00:00Z`);
+  const firstDayOfWeek = WEEKDAYS.indexOf((pattern.firstDayOfWeek?.toLowerCase() ?? 'sunday') as typeof WEEKDAYS[number]);
+  const weekStart = (date: string) => addDays(date, -((new Date(`${date}T12:00:00Z`).getUTCDay() - firstDayOfWeek + 7) % 7));
+  const last = range.type === 'endDate' && range.endDate && range.endDate < to ? range.endDate : to;
+
+  const matches = (date: string): boolean => {
+    const d = new Date(`${date}T12:00:00Z`);
+    const months = (d.getUTCFullYear() - first.getUTCFullYear()) * 12 + d.getUTCMonth() - first.getUTCMonth();
+    const lastDayOfMonth = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+    const isDayOfMonth = d.getUTCDate() === Math.min(pattern.dayOfMonth ?? 0, lastDayOfMonth);
+    const isWeekday = days.includes(WEEKDAYS[d.getUTCDay()]);
+
+    switch (pattern.type) {
+      case 'daily':
+        return daysBetween(range.startDate, date) % interval === 0;
+      case 'weekly':
+        return isWeekday && (daysBetween(weekStart(range.startDate), weekStart(date)) / 7) % interval === 0;
+      case 'absoluteMonthly':
+        return isDayOfMonth && months % interval === 0;
+      case 'relativeMonthly':
+        return isWeekday && isWeekOfMonth(d, pattern.index ?? 'first') && months % interval === 0;
+      case 'absoluteYearly':
+        return d.getUTCMonth() + 1 === pattern.month && isDayOfMonth && (months / 12) % interval === 0;
+      case 'relativeYearly':
+        return d.getUTCMonth() + 1 === pattern.month && isWeekday && isWeekOfMonth(d, pattern.index ?? 'first')
+          && (months / 12) % interval === 0;
+      default:
+        return false;
+    }
+  };
+
+  const dates: string[] = [];
+  let count = 0;
+  for (let date = range.startDate; date <= last; date = addDays(date, 1)) {
+    if (!matches(date)) continue;
+    count++;
+    if (range.type === 'numbered' && count > (range.numberOfOccurrences ?? 0)) break;
+    if (date >= from) dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Map friendly recurrence input to Graph's patternedRecurrence
+ * Missing days/dates default to those of the first occurrence (start).
+ */
+function buildPatternedRecurrence(
+  recurrence: RecurrenceInput,
+  start: string,
+  timeZone: string
+): PatternedRecurrence {
+  const { frequency, interval, daysOfWeek, dayOfMonth, weekOfMonth, month, endDate, occurrences } = recurrence;
+
+  const startDate = start.slice(0, 10);
+  const first = new Date(`${startDate}T12:00:00Z`);
+  if (isNaN(first.getTime())) {
+    throw new Error(`Invalid start "${start}" for recurrence`);
+  }
+  if (endDate && occurrences) {
+    throw new Error('Recurrence accepts either endDate or occurrences, not both');
+  }
+  if (endDate && endDate < startDate) {
+    throw new Error('Recurrence endDate is before the first occurrence');
+  }
+
+  const days = daysOfWeek ?? [WEEKDAYS[first.getUTCDay()]];
+  const firstDayOfMonth = dayOfMonth ?? first.getUTCDate();
+  const firstMonth = month ?? first.getUTCMonth() + 1;
+
+  let pattern: Record<string, unknown>;
+  switch (frequency) {
+    case 'daily':
+      pattern = { type: 'daily', interval };
+      break;
+    case 'weekly':
+      pattern = { type: 'weekly', interval, daysOfWeek: days, firstDayOfWeek: 'monday' };
+      break;
+    case 'monthly':
+      pattern = weekOfMonth
+        ? { type: 'relativeMonthly', interval, daysOfWeek: days, index: weekOfMonth }
+        : { type: 'absoluteMonthly', interval, dayOfMonth: firstDayOfMonth };
+      break;
+    case 'yearly':
+      pattern = weekOfMonth
+        ? { type: 'relativeYearly', interval, daysOfWeek: days, index: weekOfMonth, month: firstMonth }
+        : { type: 'absoluteYearly', interval, dayOfMonth: firstDayOfMonth, month: firstMonth };
+      break;
+  }
+
+  const range: PatternedRecurrence['range'] = endDate
+    ? { type: 'endDate', startDate, endDate }
+    : occurrences
+      ? { type: 'numbered', startDate, numberOfOccurrences: occurrences }
+      : { type: 'noEnd', startDate };
+  range.recurrenceTimeZone = timeZone;
+
+  return { pattern, range };
+}
+
+/**
+ * Prefer header so Graph returns event times in the given time zone
+ */
+function preferTimeZone(timeZone: string): Record<string, string> {
+  return { 'Prefer': `outlook.timezone="${sanitizeTimezone(timeZone)}"` };
+}
+
+interface SeriesEvent {
+  id: string;
+  type?: string;
+  seriesMasterId?: string;
+  start?: { dateTime: string; timeZone: string };
+  end?: { dateTime: string; timeZone: string };
+  originalStartTimeZone?: string;
+  recurrence?: PatternedRecurrence;
+  calendar?: { id?: string };
+  [key: string]: unknown;
+}
+
+/**
+ * Extract the Graph error message from a failed response
+ */
+function getGraphErrorMessage(response: GraphResponse<unknown>, fallback: string): string {
+  const graphError = response.data as GraphError;
+  return graphError?.error?.message || `${fallback}: ${response.status}`;
+}
+
+/**
+ * Resolve the series master ID of an occurrence, exception or master
+ */
+async function getSeriesMasterId(eventId: string, mailbox?: string): Promise<string> {
+  const response = await graphRequest<SeriesEvent>(
+    `${getMailboxPath(mailbox)}/events/${sanitizePathSegment(eventId, 'eventId')}?$select=type,seriesMasterId`
+  );
+  if (!response.ok) {
+    throw new Error(getGraphErrorMessage(withDelegateAccessError(response, mailbox, 'calendar'), 'Failed to load event'));
+  }
+  if (response.data.type === 'seriesMaster') {
+    return eventId;
+  }
+  if (!response.data.seriesMasterId) {
+    throw new Error('This event is not part of a recurring series');
+  }
+  return response.data.seriesMasterId;
+}
+
+/**
+ * Load an occurrence together with its series master
+ * Occurrence times are returned in the series' own time zone so that the
+ * occurrence date matches the series range.
+ */
+async function getOccurrenceWithSeries(eventId: string, mailbox?: string): Promise<{
+  master: SeriesEvent;
+  occurrence: SeriesEvent;
+  occurrenceDate: string;
+  timeZone: string;
+}> {
+  const mailboxPath = getMailboxPath(mailbox);
+  const masterId = sanitizePathSegment(await getSeriesMasterId(eventId, mailbox), 'seriesMasterId');
+
+  const masterResponse = await graphRequest<SeriesEvent>(
+    `${mailboxPath}/events/${masterId}?$select=id,subject,body,location,locations,attendees,isOnlineMeeting,isAllDay,showAs,sensitivity,categories,importance,isReminderOn,reminderMinutesBeforeStart,recurrence,originalStartTimeZone&$expand=calendar($select=id)`
+  );
+  if (!masterResponse.ok) {
+    throw new Error(getGraphErrorMessage(masterResponse, 'Failed to load series master'));
+  }
+  const master = masterResponse.data;
+  const timeZone = master.recurrence?.range.recurrenceTimeZone || master.originalStartTimeZone || await getDefaultTimeZone();
+
+  const occurrenceResponse = await graphRequest<SeriesEvent>(
+    `${mailboxPath}/events/${sanitizePathSegment(eventId, 'eventId')}?$select=id,type,start,end`,
+    { headers: preferTimeZone(timeZone) }
+  );
+  if (!occurrenceResponse.ok || !occurrenceResponse.data.start) {
+    throw new Error(getGraphErrorMessage(occurrenceResponse, 'Failed to load occurrence'));
+  }
+  const occurrence = occurrenceResponse.data;
+
+  return { master, occurrence, occurrenceDate: occurrence.start!.dateTime.slice(0, 10), timeZone };
+}
+
+/**
+ * End a recurring series on the day before the given date
+ */
+async function endSeriesBefore(master: SeriesEvent, date: string, mailbox?: string) {
+  const recurrence = master.recurrence!;
+  return graphRequest(`${getMailboxPath(mailbox)}/events/${sanitizePathSegment(master.id, 'seriesMasterId')}`, {
+    method: 'PATCH',
+    body: {
+      recurrence: {
+        pattern: recurrence.pattern,
+        range: {
+          type: 'endDate',
+          startDate: recurrence.range.startDate,
+          endDate: addDays(date, -1),
+          recurrenceTimeZone: recurrence.range.recurrenceTimeZone,
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Count the occurrences of a series before the given local date/time
+ * calendarView-style windows without an offset are read as UTC and the
+ * series may use a Windows time zone name, so the window is widened by a day
+ * on both sides (in UTC) and the returned local start times are compared instead.
+ */
+async function countOccurrencesBefore(
+  master: SeriesEvent,
+  dateTime: string,
+  timeZone: string,
+  mailbox?: string
+): Promise<number> {
+  const before = toLocalDateTime(dateTime);
+  const queryParams = new URLSearchParams();
+  queryParams.set('startDateTime', `${addDays(master.recurrence!.range.startDate, -1)}T00:00:00Z`);
+  queryParams.set('endDateTime', `${addDays(before.slice(0, 10), 1)}T00:00:00Z`);
+  queryParams.set('$select', 'id,start');
+  queryParams.set('$top', '999');
+
+  let count = 0;
+  let url: string | undefined = `${getMailboxPath(mailbox)}/events/${sanitizePathSegment(master.id, 'seriesMasterId')}/instances?${queryParams.toString()}`;
+
+  while (url) {
+    const response: GraphResponse<{ value?: SeriesEvent[]; '@odata.nextLink'?: string }> = await graphRequest(url, {
+      headers: preferTimeZone(timeZone),
+    });
+    if (!response.ok) {
+      throw new Error(getGraphErrorMessage(response, 'Failed to count earlier occurrences'));
+    }
+    count += (response.data.value ?? []).filter(i => i.start && toLocalDateTime(i.start.dateTime) < before).length;
+    url = response.data['@odata.nextLink'];
+  }
+
+  return count;
+}
+
+/**
+ * Find the dates in a window on which the series should have an occurrence but has none
+ * Regular occurrences are matched by their local start date. Moved occurrences
+ * (exceptions) are matched by their original start, which Graph only gives in UTC,
+ * shifted by the series' offset taken from the nearest regular occurrence.
+ */
+async function findRemovedOccurrences(
+  masterId: string,
+  from: string,
+  to: string,
+  mailbox?: string
+): Promise<string[]> {
+  const mailboxPath = getMailboxPath(mailbox);
+  const masterResponse = await graphRequest<SeriesEvent>(
+    `${mailboxPath}/events/${sanitizePathSegment(masterId, 'seriesMasterId')}?$select=recurrence,originalStartTimeZone`
+  );
+  if (!masterResponse.ok) {
+    throw new Error(getGraphErrorMessage(masterResponse, 'Failed to load series master'));
+  }
+  const master = masterResponse.data;
+  if (!master.recurrence) {
+    return [];
+  }
+  const timeZone = master.recurrence.range.recurrenceTimeZone || master.originalStartTimeZone || await getDefaultTimeZone();
+
+  // Windows without an offset are read as UTC, so fetch a day more on both sides
+  const queryParams = new URLSearchParams();
+  queryParams.set('startDateTime', `${addDays(from, -1)}T00:00:00Z`);
+  queryParams.set('endDateTime', `${addDays(to, 2)}T00:00:00Z`);
+  queryParams.set('$select', 'id,type,start,originalStart');
+  queryParams.set('$top', '999');
+
+  const instances: Array<SeriesEvent & { originalStart?: string }> = [];
+  let url: string | undefined = `${mailboxPath}/events/${sanitizePathSegment(masterId, 'seriesMasterId')}/instances?${queryParams.toString()}`;
+
+  while (url) {
+    const response: GraphResponse<{ value?: Array<SeriesEvent & { originalStart?: string }>; '@odata.nextLink'?: string }> = await graphRequest(url, {
+      headers: preferTimeZone(timeZone),
+    });
+    if (!response.ok) {
+      throw new Error(getGraphErrorMessage(response, 'Failed to check for removed occurrences'));
+    }
+    instances.push(...(response.data.value ?? []));
+    url = response.data['@odata.nextLink'];
+  }
+
+  const regular = instances
+    .filter(i => i.type === 'occurrence' && i.start && i.originalStart)
+    .map(i => ({
+      instant: Date.parse(i.originalStart!),
+      offset: Date.parse(`${toLocalDateTime(i.start!.dateTime)}Z`) - Date.parse(i.originalStart!),
+    }));
+
+  const scheduledDates = new Set<string>();
+  for (const instance of instances) {
+    if (instance.type === 'occurrence' && instance.start) {
+      scheduledDates.add(instance.start.dateTime.slice(0, 10));
+    } else if (instance.type === 'exception' && instance.originalStart) {
+      const instant = Date.parse(instance.originalStart);
+      const nearest = regular.reduce<{ instant: number; offset: number } | undefined>(
+        (best, r) => !best || Math.abs(r.instant - instant) < Math.abs(best.instant - instant) ? r : best,
+        undefined
+      );
+      scheduledDates.add(new Date(instant + (nearest?.offset ?? 0)).toISOString().slice(0, 10));
+    }
+  }
+
+  return expandRecurrenceDates(master.recurrence, from, to).filter(date => !scheduledDates.has(date));
+}
+
+/**
+ * Apply updates to an occurrence and every following occurrence
+ * Graph has no native "this and following": the original series is ended
+ * the day before the occurrence and a new series carrying the updates
+ * starts at the occurrence.
+ */
+async function updateThisAndFollowing(
+  eventId: string,
+  updates: Record<string, unknown>,
+  recurrenceInput?: RecurrenceInput,
+  attendeeChanges?: AttendeeChanges,
+  mailbox?: string
+) {
+  const { master, occurrence, occurrenceDate, timeZone } = await getOccurrenceWithSeries(eventId, mailbox);
+  const masterPath = `${getMailboxPath(mailbox)}/events/${sanitizePathSegment(master.id, 'seriesMasterId')}`;
+
+  const newStart = (updates.start as SeriesEvent['start']) ?? { dateTime: occurrence.start!.dateTime, timeZone };
+  const newEnd = (updates.end as SeriesEvent['end']) ?? { dateTime: occurrence.end!.dateTime, timeZone };
+
+  let recurrence = recurrenceInput
+    ? buildPatternedRecurrence(recurrenceInput, newStart.dateTime, newStart.timeZone)
+    : undefined;
+
+  // The first occurrence onwards is simply the whole series
+  if (occurrenceDate <= master.recurrence!.range.startDate) {
+    const body: Record<string, unknown> = recurrence ? { ...updates, recurrence } : { ...updates };
+    if (attendeeChanges) {
+      body.attendees = mergeAttendees((master.attendees as EventAttendee[] | undefined) ?? [], attendeeChanges);
+    }
+    const response = await graphRequest<Record<string, unknown>>(masterPath, {
+      method: 'PATCH',
+      body,
+    });
+    if (!response.ok) {
+      throw new Error(getGraphErrorMessage(response, 'Failed to update series'));
+    }
+    return { series: enrichEventWithDayInfo(response.data) };
+  }
+
+  if (!recurrence) {
+    const range = { ...master.recurrence!.range, startDate: newStart.dateTime.slice(0, 10) };
+    if (range.type === 'numbered') {
+      const previous = await countOccurrencesBefore(master, occurrence.start!.dateTime, timeZone, mailbox);
+      range.numberOfOccurrences = Math.max(1, (range.numberOfOccurrences ?? 1) - previous);
+    }
+    recurrence = { pattern: master.recurrence!.pattern, range };
+  }
+
+  const attendees = mergeAttendees((master.attendees as EventAttendee[] | undefined) ?? [], attendeeChanges ?? {});
+  const copied: Record<string, unknown> = {};
+  for (const field of ['subject', 'body', 'location', 'locations', 'isOnlineMeeting', 'isAllDay', 'showAs', 'sensitivity', 'categories', 'importance', 'isReminderOn', 'reminderMinutesBeforeStart']) {
+    if (master[field] !== undefined) copied[field] = master[field];
+  }
+
+  // Keep the new series in the calendar of the original one (not necessarily the primary calendar)
+  const eventsPath = master.calendar?.id
+    ? `${getMailboxPath(mailbox)}/calendars/${sanitizePathSegment(master.calendar.id, 'calendarId')}/events`
+    : `${getMailboxPath(mailbox)}/events`;
+  const created = await graphRequest<Record<string, unknown>>(eventsPath, {
+    method: 'POST',
+    body: {
+      ...copied,
+      attendees: attendees.map(a => ({ emailAddress: a.emailAddress, type: a.type || 'required' })),
+      ...updates,
+      start: newStart,
+      end: newEnd,
+      recurrence,
+    },
+  });
+  if (!created.ok) {
+    throw new Error(getGraphErrorMessage(created, 'Failed to create the new series'));
+  }
+
+  const ended = await endSeriesBefore(master, occurrenceDate, mailbox);
+  if (!ended.ok) {
+    throw new Error(`New series ${created.data.id} was created, but the original series could not be ended: ${getGraphErrorMessage(ended, 'unknown error')}`);
+  }
+
+  return {
+    series: enrichEventWithDayInfo(created.data),
+    originalSeries: { id: master.id, endDate: addDays(occurrenceDate, -1) },
+  };
+}
+
+// ============================================================================
+// Conflict Detection
+// ============================================================================
+
+interface ScheduleItem {
+  status?: string;
+  start?: { dateTime?: string };
+  end?: { dateTime?: string };
+}
+
+interface ScheduleInformation {
+  scheduleId?: string;
+  availabilityView?: string;
+  scheduleItems?: ScheduleItem[];
+  workingHours?: {
+    daysOfWeek?: string[];
+    startTime?: string;
+    endTime?: string;
+    timeZone?: { name?: string };
+  };
+  error?: { message?: string; responseCode?: string };
+}
+
+interface EventConflict {
+  source: 'calendar' | 'attendee';
+  eventId?: string;
+  email?: string;
+  subject?: string;
+  start: string;
+  end: string;
+  showAs?: string;
+}
+
+interface ConflictCheck {
+  start: string;
+  end: string;
+  timeZone: string;
+  /** Attendee emails whose free/busy should be checked as well */
+  attendees?: string[];
+  /** Event being moved, which must not conflict with itself */
+  ignoreEventId?: string;
+  /** Current slot of the event being moved; attendees are busy then because of the event itself */
+  currentSlot?: { start: string; end: string };
+  /** Other user's mailbox whose calendar is checked (default: the user's own) */
+  mailbox?: string;
+  /** Calendar the event goes into (default: the primary calendar) */
+  calendarId?: string;
+}
+
+interface CalendarViewEvent {
+  id: string;
+  subject?: string;
+  start?: { dateTime: string };
+  end?: { dateTime: string };
+  showAs?: string;
+  isCancelled?: boolean;
+}
+
+/**
+ * Normalize a local date/time to YYYY-MM-DDTHH:MM:SS so values compare as strings
+ */
+function toLocalDateTime(dateTime: string): string {
+  const match = dateTime.match(/^(\d{4}-\d{2}-\d{2})(?:T(\d{2}:\d{2})(:\d{2})?)?/);
+  if (!match) return dateTime;
+  return `${match[1]}T${match[2] ?? '00:00'}${match[3] ?? ':00'}`;
+}
+
+/**
+ * Find events and attendee busy times overlapping a time slot
+ * calendarView only takes UTC bounds, so a wider window is fetched with
+ * times in the event's time zone and overlaps are compared locally.
+ */
+async function findConflicts(check: ConflictCheck): Promise<EventConflict[]> {
+  const start = toLocalDateTime(check.start);
+  const end = toLocalDateTime(check.end);
+  const overlaps = (otherStart: string, otherEnd: string) =>
+    toLocalDateTime(otherStart) < end && toLocalDateTime(otherEnd) > start;
+  
+  const queryParams = new URLSearchParams();
+  queryParams.set('startDateTime', `${addDays(start.slice(0, 10), -1)}T00:00:00Z`);
+  queryParams.set('endDateTime', `${addDays(end.slice(0, 10), 2)}T00:00:00Z`);
+  queryParams.set('$select', 'id,subject,start,end,showAs,isCancelled');
+  queryParams.set('$top', '100');
+  
+  const calendarPath = check.calendarId
+    ? `${getMailboxPath(check.mailbox)}/calendars/${sanitizePathSegment(check.calendarId, 'calendarId')}`
+    : getMailboxPath(check.mailbox);
+  const events: CalendarViewEvent[] = [];
+  let url: string | undefined = `${calendarPath}/calendarView?${queryParams.toString()}`;
+  
+  while (url) {
+    const response: GraphResponse<{ value?: CalendarViewEvent[]; '@odata.nextLink'?: string }> = await graphRequest(url, {
+      headers: preferTimeZone(check.timeZone),
+    });
+    if (!response.ok) {
+      throw new Error(getGraphErrorMessage(withDelegateAccessError(response, check.mailbox, 'calendar'), 'Failed to check for conflicts'));
+    }
+    events.push(...(response.data.value ?? []));
+    url = response.data['@odata.nextLink'];
+  }
+  
+  const conflicts: EventConflict[] = events
+    .filter(e => e.id !== check.ignoreEventId && !e.isCancelled && e.showAs !== 'free')
+    .filter(e => e.start && e.end && overlaps(e.start.dateTime, e.end.dateTime))
+    .map(e => ({
+      source: 'calendar' as const,
+      eventId: e.id,
+      subject: e.subject,
+      start: toLocalDateTime(e.start!.dateTime),
+      end: toLocalDateTime(e.end!.dateTime),
+      showAs: e.showAs,
+    }));
+  
+  const attendees = (check.attendees ?? []).slice(0, 20);
+  if (attendees.length > 0) {
+    const schedule = await graphRequest<{ value?: ScheduleInformation[] }>('/me/calendar/getSchedule', {
+      method: 'POST',
+      body: {
+        schedules: attendees,
+        startTime: { dateTime: start, timeZone: check.timeZone },
+        endTime: { dateTime: end, timeZone: check.timeZone },
+        availabilityViewInterval: 15,
+      },
+      headers: preferTimeZone(check.timeZone),
+    });
+    if (!schedule.ok) {
+      throw new Error(getGraphErrorMessage(schedule, 'Failed to check attendee availability'));
+    }
+    
+    const currentStart = check.currentSlot && toLocalDateTime(check.currentSlot.start);
+    const currentEnd = check.currentSlot && toLocalDateTime(check.currentSlot.end);
+    
+    for (const info of schedule.data.value ?? []) {
+      for (const item of info.scheduleItems ?? []) {
+        if (!item.status || item.status === 'free' || !item.start?.dateTime || !item.end?.dateTime) continue;
+        if (!overlaps(item.start.dateTime, item.end.dateTime)) continue;
+        
+        const itemStart = toLocalDateTime(item.start.dateTime);
+        const itemEnd = toLocalDateTime(item.end.dateTime);
+        if (itemStart === currentStart && itemEnd === currentEnd) continue;
+        
+        conflicts.push({ source: 'attendee', email: info.scheduleId, start: itemStart, end: itemEnd, showAs: item.status });
+      }
+    }
+  }
+  
+  return conflicts;
+}
+
+/**
+ * Tool response when an event would overlap existing events
+ */
+function formatConflictResponse(conflicts: EventConflict[]) {
+  return {
+    content: [{
+      type: 'text' as const,
+      text: serializeResponse({
+        success: false,
+        conflicts,
+        message: 'The time overlaps with existing events. Nothing was saved. Pick another time (e.g. with find-meeting-times) or, if the user confirms, retry with allowConflicts=true.',
+      }),
+    }],
+  };
+}
+
+// ============================================================================
+// iCalendar
+// ============================================================================
+
+/** Safety limit for events created by a single import */
+const MAX_IMPORT_EVENTS = 50;
+
+/** Extended property holding the UID of imported events (Graph assigns its own iCalUId) */
+const ICS_UID_PROPERTY_ID = 'String {00020329-0000-0000-C000-000000000046} Name IcsUid';
+
+const RELATIVE_INDEXES: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4, last: -1 };
+
+interface GraphEvent {
+  id?: string;
+  iCalUId?: string;
+  subject?: string;
+  body?: { contentType?: string; content?: string };
+  start?: { dateTime?: string; timeZone?: string };
+  end?: { dateTime?: string; timeZone?: string };
+  isAllDay?: boolean;
+  location?: { displayName?: string };
+  organizer?: { emailAddress?: { address?: string; name?: string } };
+  attendees?: EventAttendee[];
+  recurrence?: PatternedRecurrence | null;
+  type?: string;
+  showAs?: string;
+  sensitivity?: string;
+  importance?: string;
+  isCancelled?: boolean;
+  categories?: string[];
+  onlineMeeting?: { joinUrl?: string } | null;
+  lastModifiedDateTime?: string;
+}
+
+/**
+ * Map Graph's patternedRecurrence to an RRULE
+ * UNTIL is the end of the last day in the export time zone, as a UTC value.
+ */
+function graphRecurrenceToRRule(
+  recurrence: PatternedRecurrence,
+  isAllDay: boolean,
+  timeZone: string
+): IcsRecurrenceRule {
+  const pattern = recurrence.pattern as {
+    type?: string;
+    interval?: number;
+    daysOfWeek?: string[];
+    dayOfMonth?: number;
+    month?: number;
+    index?: string;
+    firstDayOfWeek?: string;
+  };
+  const toCode = (day: string) => WEEKDAY_CODES[WEEKDAYS.indexOf(day as typeof WEEKDAYS[number])];
+  const byDay = pattern.daysOfWeek?.map(toCode);
+  const bySetPos = pattern.index ? [RELATIVE_INDEXES[pattern.index]] : undefined;
+
+  const rule: IcsRecurrenceRule = { freq: '', interval: pattern.interval ?? 1 };
+  switch (pattern.type) {
+    case 'daily':
+      rule.freq = 'DAILY';
+      break;
+    case 'weekly':
+      Object.assign(rule, { freq: 'WEEKLY', byDay, wkst: pattern.firstDayOfWeek ? toCode(pattern.firstDayOfWeek) : undefined });
+      break;
+    case 'absoluteMonthly':
+      Object.assign(rule, { freq: 'MONTHLY', byMonthDay: [pattern.dayOfMonth] });
+      break;
+    case 'relativeMonthly':
+      Object.assign(rule, { freq: 'MONTHLY', byDay, bySetPos });
+      break;
+    case 'absoluteYearly':
+      Object.assign(rule, { freq: 'YEARLY', byMonth: [pattern.month], byMonthDay: [pattern.dayOfMonth] });
+      break;
+    case 'relativeYearly':
+      Object.assign(rule, { freq: 'YEARLY', byMonth: [pattern.month], byDay, bySetPos });
+      break;
+    default:
+      throw new Error(`Unsupported recurrence pattern "${pattern.type}"`);
+  }
+
+  const { range } = recurrence;
+  if (range.type === 'numbered' && range.numberOfOccurrences) {
+    rule.count = range.numberOfOccurrences;
+  } else if (range.type === 'endDate' && range.endDate) {
+    rule.until = isAllDay
+      ? { dateTime: `${range.endDate}T00:00:00`, isDate: true }
+      : { dateTime: localToUtc(`${range.endDate}T23:59:59`, timeZone), timeZone: 'UTC' };
+  }
+
+  return rule;
+}
+
+/**
+ * Map a Graph event to an iCalendar event
+ * Times are expected in the export time zone (via the Prefer header).
+ */
+function graphEventToIcs(event: GraphEvent, timeZone: string): IcsEvent {
+  const toValue = (value?: { dateTime?: string }): IcsDateTime => event.isAllDay
+    ? { dateTime: `${(value?.dateTime ?? '').slice(0, 10)}T00:00:00`, isDate: true }
+    : { dateTime: toLocalDateTime(value?.dateTime ?? ''), timeZone };
+
+  const description = event.body?.content
+    ? (event.body.contentType?.toLowerCase() === 'html' ? stripHtml(event.body.content) : event.body.content).trim()
+    : '';
+  const partstats: Record<string, string> = { accepted: 'ACCEPTED', declined: 'DECLINED', tentativelyAccepted: 'TENTATIVE' };
+
+  return {
+    uid: event.iCalUId || event.id || '',
+    summary: event.subject ?? '',
+    description: description || undefined,
+    location: event.location?.displayName || undefined,
+    start: toValue(event.start),
+    end: toValue(event.end),
+    organizer: event.organizer?.emailAddress?.address
+      ? { email: event.organizer.emailAddress.address, name: event.organizer.emailAddress.name }
+      : undefined,
+    attendees: (event.attendees ?? [])
+      .filter(a => a.emailAddress?.address)
+      .map(a => ({
+        email: a.emailAddress!.address!,
+        name: a.emailAddress?.name,
+        role: a.type === 'optional' ? 'OPT-PARTICIPANT' : a.type === 'resource' ? 'NON-PARTICIPANT' : 'REQ-PARTICIPANT',
+        cutype: a.type === 'resource' ? 'RESOURCE' : undefined,
+        partstat: partstats[a.status?.response ?? ''] ?? 'NEEDS-ACTION',
+      })),
+    rrule: event.type === 'seriesMaster' && event.recurrence
+      ? graphRecurrenceToRRule(event.recurrence, !!event.isAllDay, timeZone)
+      : undefined,
+    exdates: [],
+    status: event.isCancelled ? 'CANCELLED' : 'CONFIRMED',
+    transparency: event.showAs === 'free' ? 'TRANSPARENT' : 'OPAQUE',
+    classification: event.sensitivity === 'confidential'
+      ? 'CONFIDENTIAL'
+      : event.sensitivity === 'private' || event.sensitivity === 'personal' ? 'PRIVATE' : 'PUBLIC',
+    priority: event.importance === 'high' ? 1 : event.importance === 'low' ? 9 : 5,
+    categories: event.categories ?? [],
+    url: event.onlineMeeting?.joinUrl || undefined,
+    lastModified: event.lastModifiedDateTime
+      ? { dateTime: toLocalDateTime(event.lastModifiedDateTime), timeZone: 'UTC' }
+      : undefined,
+  };
+}
+
+/**
+ * Map an RRULE to Graph's patternedRecurrence
+ * Rules Graph cannot express (hourly, several month days, BYHOUR, ...) are rejected.
+ */
+function rruleToGraphRecurrence(rule: IcsRecurrenceRule, start: string, timeZone: string): PatternedRecurrence {
+  const unsupported = Object.keys(rule.other ?? {});
+  if (unsupported.length > 0) {
+    throw new Error(`Unsupported recurrence rule parts: ${unsupported.join(', ')}`);
+  }
+  if ((rule.byMonthDay?.length ?? 0) > 1 || (rule.byMonth?.length ?? 0) > 1 || (rule.bySetPos?.length ?? 0) > 1) {
+    throw new Error('Recurrence rules with several month days, months or set positions are not supported');
+  }
+
+  const startDate = start.slice(0, 10);
+  const first = new Date(`${startDate}T12:00:00Z`);
+  const interval = rule.interval ?? 1;
+
+  const days = (rule.byDay ?? []).map(value => {
+    const match = value.match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (!match) throw new Error(`Invalid BYDAY value "${value}"`);
+    return { ordinal: match[1] ? parseInt(match[1], 10) : undefined, day: WEEKDAYS[WEEKDAY_CODES.indexOf(match[2])] };
+  });
+  const daysOfWeek = days.length > 0 ? days.map(d => d.day) : [WEEKDAYS[first.getUTCDay()]];
+
+  const position = rule.bySetPos?.[0] ?? days.find(d => d.ordinal !== undefined)?.ordinal;
+  const index = position === undefined
+    ? undefined
+    : Object.keys(RELATIVE_INDEXES).find(key => RELATIVE_INDEXES[key] === position);
+  if (position !== undefined && !index) {
+    throw new Error(`Unsupported recurrence position ${position} (Graph supports 1-4 and -1)`);
+  }
+  const dayOfMonth = rule.byMonthDay?.[0] ?? first.getUTCDate();
+  if (dayOfMonth < 1) {
+    throw new Error('Recurrence rules counting days from the end of the month are not supported');
+  }
+  const month = rule.byMonth?.[0] ?? first.getUTCMonth() + 1;
+
+  let pattern: Record<string, unknown>;
+  switch (rule.freq) {
+    case 'DAILY':
+      // "Every weekday" is commonly written as a daily rule limited to some days
+      if (days.length > 0) {
+        if (interval !== 1) throw new Error('Daily recurrence with BYDAY and INTERVAL is not supported');
+        pattern = { type: 'weekly', interval: 1, daysOfWeek, firstDayOfWeek: 'monday' };
+      } else {
+        pattern = { type: 'daily', interval };
+      }
+      break;
+    case 'WEEKLY': {
+      const weekStart = rule.wkst ? WEEKDAYS[WEEKDAY_CODES.indexOf(rule.wkst)] : undefined;
+      pattern = { type: 'weekly', interval, daysOfWeek, firstDayOfWeek: weekStart ?? 'monday' };
+      break;
+    }
+    case 'MONTHLY':
+      pattern = index
+        ? { type: 'relativeMonthly', interval, daysOfWeek, index }
+        : { type: 'absoluteMonthly', interval, dayOfMonth };
+      break;
+    case 'YEARLY':
+      pattern = index
+        ? { type: 'relativeYearly', interval, daysOfWeek, index, month }
+        : { type: 'absoluteYearly', interval, dayOfMonth, month };
+      break;
+    default:
+      throw new Error(`Unsupported recurrence frequency "${rule.freq}"`);
+  }
+
+  let range: PatternedRecurrence['range'];
+  if (rule.count) {
+    range = { type: 'numbered', startDate, numberOfOccurrences: rule.count };
+  } else if (rule.until) {
+    const until = rule.until.timeZone === 'UTC' ? utcToLocal(rule.until.dateTime, timeZone) : rule.until.dateTime;
+    range = { type: 'endDate', startDate, endDate: until.slice(0, 10) };
+  } else {
+    range = { type: 'noEnd', startDate };
+  }
+  range.recurrenceTimeZone = timeZone;
+
+  return { pattern, range };
+}
+
+/**
+ * Map an iCalendar event to a Graph event payload
+ * Floating times use the default time zone. Attendees are only included on
+ * request because Graph sends them invitations.
+ */
+function icsEventToGraph(event: IcsEvent, defaultTimeZone: string, includeAttendees: boolean): Record<string, unknown> {
+  const end = getEventEnd(event);
+  const startZone = event.start.isDate ? defaultTimeZone : event.start.timeZone ?? defaultTimeZone;
+  const endZone = end.isDate ? defaultTimeZone : end.timeZone ?? startZone;
+
+  const graphEvent: Record<string, unknown> = {
+    start: { dateTime: event.start.dateTime, timeZone: startZone },
+    end: { dateTime: end.dateTime, timeZone: endZone },
+    isAllDay: !!event.start.isDate,
+  };
+
+  if (event.summary !== undefined) {
+    graphEvent.subject = event.summary;
+  }
+  if (event.description) {
+    graphEvent.body = { contentType: 'Text', content: event.description };
+  }
+  if (event.location) {
+    graphEvent.location = { displayName: event.location };
+  }
+  if (event.categories.length > 0) {
+    graphEvent.categories = event.categories;
+  }
+  if (event.transparency === 'TRANSPARENT') {
+    graphEvent.showAs = 'free';
+  } else if (event.status === 'TENTATIVE') {
+    graphEvent.showAs = 'tentative';
+  }
+  if (event.classification === 'PRIVATE' || event.classification === 'CONFIDENTIAL') {
+    graphEvent.sensitivity = event.classification.toLowerCase();
+  }
+  if (event.priority) {
+    graphEvent.importance = event.priority < 5 ? 'high' : event.priority > 5 ? 'low' : 'normal';
+  }
+  if (event.rrule) {
+    graphEvent.recurrence = rruleToGraphRecurrence(event.rrule, event.start.dateTime, startZone);
+  }
+  if (includeAttendees && event.attendees.length > 0) {
+    graphEvent.attendees = event.attendees.map(a => ({
+      emailAddress: { address: a.email, name: a.name },
+      type: a.cutype === 'RESOURCE' || a.cutype === 'ROOM'
+        ? 'resource'
+        : a.role === 'OPT-PARTICIPANT' || a.role === 'NON-PARTICIPANT' ? 'optional' : 'required',
+    }));
+  }
+
+  return graphEvent;
+}
+
+/**
+ * Find an event that was already imported or received under the same UID
+ */
+async function findEventByUid(eventsPath: string, uid: string): Promise<string | undefined> {
+  const value = sanitizeODataString(uid);
+  const filters = [
+    `iCalUId eq '${value}'`,
+    `singleValueExtendedProperties/Any(ep: ep/id eq '${ICS_UID_PROPERTY_ID}' and ep/value eq '${value}')`,
+  ];
+
+  for (const filter of filters) {
+    const queryParams = new URLSearchParams({ '$filter': filter, '$select': 'id', '$top': '1' });
+    const response = await graphRequest<{ value?: Array<{ id: string }> }>(`${eventsPath}?${queryParams.toString()}`);
+    if (!response.ok) {
+      throw new Error(getGraphErrorMessage(response, `Failed to look up event ${uid}`));
+    }
+    if (response.data.value?.[0]) {
+      return response.data.value[0].id;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Local date (YYYY-MM-DD) of an iCalendar value in the given time zone
+ */
+function toLocalDate(value: IcsDateTime, timeZone: string): string {
+  return value.timeZone === 'UTC' && !value.isDate
+    ? utcToLocal(value.dateTime, timeZone).slice(0, 10)
+    : value.dateTime.slice(0, 10);
+}
+
+/**
+ * Delete or update single occurrences of an imported series
+ * Occurrences are matched by date, which is unique for every pattern Graph supports.
+ */
+async function applyOccurrenceChanges(
+  seriesId: string,
+  timeZone: string,
+  removedDates: string[],
+  overrides: Map<string, Record<string, unknown>>
+): Promise<{ removed: number; updated: number; unmatched: string[] }> {
+  const dates = [...removedDates, ...overrides.keys()].sort();
+  const result = { removed: 0, updated: 0, unmatched: [] as string[] };
+  if (dates.length === 0) {
+    return result;
+  }
+
+  const queryParams = new URLSearchParams();
+  queryParams.set('startDateTime', `${addDays(dates[0], -1)}T00:00:00Z`);
+  queryParams.set('endDateTime', `${addDays(dates[dates.length - 1], 2)}T00:00:00Z`);
+  queryParams.set('$select', 'id,start');
+  queryParams.set('$top', '500');
+
+  const response = await graphRequest<{ value?: Array<{ id: string; start?: { dateTime?: string } }> }>(
+    `/me/events/${sanitizePathSegment(seriesId, 'seriesId')}/instances?${queryParams.toString()}`,
+    { headers: preferTimeZone(timeZone) }
+  );
+  if (!response.ok) {
+    throw new Error(getGraphErrorMessage(response, 'Failed to list occurrences of the imported series'));
+  }
+
+  const byDate = new Map((response.data.value ?? []).map(i => [i.start?.dateTime?.slice(0, 10) ?? '', i.id]));
+
+  for (const date of new Set(removedDates)) {
+    const instanceId = byDate.get(date);
+    if (!instanceId) {
+      result.unmatched.push(date);
+      continue;
+    }
+    const deleteResponse = await graphRequest(`/me/events/${sanitizePathSegment(instanceId, 'eventId')}`, { method: 'DELETE' });
+    if (deleteResponse.ok || deleteResponse.status === 204) result.removed++;
+    else result.unmatched.push(date);
+  }
+
+  for (const [date, changes] of overrides) {
+    const instanceId = byDate.get(date);
+    if (!instanceId || removedDates.includes(date)) {
+      if (!instanceId) result.unmatched.push(date);
+      continue;
+    }
+    const patchResponse = await graphRequest(`/me/events/${sanitizePathSegment(instanceId, 'eventId')}`, {
+      method: 'PATCH',
+      body: changes,
+    });
+    if (patchResponse.ok) result.updated++;
+    else result.unmatched.push(date);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Calendar Sharing
+// ============================================================================
+
+/** Tool-facing sharing roles mapped to Graph's calendarRoleType */
+const CALENDAR_ROLES = {
+  freeBusyRead: 'freeBusyRead',
+  limitedRead: 'limitedRead',
+  read: 'read',
+  write: 'write',
+  delegate: 'delegateWithoutPrivateEventAccess',
+} as const;
+
+type CalendarRole = keyof typeof CALENDAR_ROLES;
+
+interface CalendarPermission {
+  id: string;
+  emailAddress?: { name?: string; address?: string };
+  role?: string;
+  allowedRoles?: string[];
+  isRemovable?: boolean;
+  isInsideOrganization?: boolean;
+}
+
+/**
+ * Graph role for a sharing role; delegates only see private events when asked for
+ */
+function toGraphRole(role: CalendarRole, includePrivateEvents?: boolean): string {
+  return role === 'delegate' && includePrivateEvents ? 'delegateWithPrivateEventAccess' : CALENDAR_ROLES[role];
+}
+
+/**
+ * Path of a calendar's permission collection (default: primary calendar)
+ */
+function getCalendarPermissionsPath(calendarId?: string): string {
+  return calendarId
+    ? `/me/calendars/${sanitizePathSegment(calendarId, 'calendarId')}/calendarPermissions`
+    : '/me/calendar/calendarPermissions';
+}
+
+/**
+ * Load a calendar's permissions
+ * Besides one entry per person, Graph lists "My Organization" (everyone in
+ * the tenant) and the owner's own entry; neither can be removed.
+ */
+async function getCalendarPermissions(permissionsPath: string): Promise<CalendarPermission[]> {
+  const response = await graphRequest<{ value: CalendarPermission[] }>(permissionsPath);
+  if (!response.ok) {
+    throw new Error(getGraphErrorMessage(response, 'Failed to load calendar permissions'));
+  }
+  return response.data.value ?? [];
+}
+
+/**
+ * Find the permission of one person by email address (case-insensitive)
+ */
+function findPermissionByEmail(permissions: CalendarPermission[], email: string): CalendarPermission | undefined {
+  const address = email.toLowerCase();
+  return permissions.find(p => p.emailAddress?.address?.toLowerCase() === address);
+}
+
+/**
+ * Compact permission entry for tool output
+ */
+function formatPermission(permission: CalendarPermission) {
+  return {
+    id: permission.id,
+    name: permission.emailAddress?.name,
+    email: permission.emailAddress?.address,
+    role: permission.role,
+    allowedRoles: permission.allowedRoles,
+    isRemovable: permission.isRemovable,
+    isInsideOrganization: permission.isInsideOrganization,
+  };
+}
+
+// ============================================================================
+// Event Attachments
+// ============================================================================
+
+/**
+ * Attach files to a newly created event, then invite its attendees
+ * Graph sends invitations as soon as an event has attendees, so they are
+ * only added once the files are uploaded and the invitation includes them.
+ * On failure the event is kept and its ID is reported so the agent can recover.
+ */
+async function attachToNewEvent(
+  mailboxPath: string,
+  eventId: string,
+  attachments: PreparedAttachment[],
+  attendees?: unknown[]
+): Promise<GraphResponse<unknown>> {
+  const eventPath = `${mailboxPath}/events/${sanitizePathSegment(eventId, 'eventId')}`;
+
+  try {
+    await addAttachments(eventPath, attachments);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const pending = attendees?.length ? ' No attendees have been invited yet.' : '';
+    throw new Error(`${message} The event was kept in the calendar (id: ${eventId}).${pending}`);
+  }
+
+  return attendees?.length
+    ? graphRequest(eventPath, { method: 'PATCH', body: { attendees } })
+    : graphRequest(eventPath);
+}
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const listCalendarsSchema = z.object({
+  mailbox: z.string().optional(),
+});
+
+const calendarColorSchema = z.enum([
+  'auto', 'lightBlue', 'lightGreen', 'lightOrange', 'lightGray', 'lightYellow',
+  'lightTeal', 'lightPink', 'lightBrown', 'lightRed',
+]);
+
+const listCalendarGroupsSchema = z.object({
+  includeCalendars: z.boolean().optional().default(false),
+});
+
+const createCalendarSchema = z.object({
+  name: z.string().min(1),
+  color: calendarColorSchema.optional(),
+  calendarGroupId: z.string().optional(),
+});
+
+const updateCalendarSchema = z.object({
+  calendarId: z.string(),
+  name: z.string().min(1).optional(),
+  color: calendarColorSchema.optional(),
+});
+
+const deleteCalendarSchema = z.object({
+  calendarId: z.string(),
+});
+
+const calendarRoleSchema = z.enum(['freeBusyRead', 'limitedRead', 'read', 'write', 'delegate']);
+
+const listCalendarPermissionsSchema = z.object({
+  calendarId: z.string().optional(),
+});
+
+const shareCalendarSchema = z.object({
+  email: z.string(),
+  name: z.string().optional(),
+  role: calendarRoleSchema,
+  includePrivateEvents: z.boolean().optional(),
+  calendarId: z.string().optional(),
+});
+
+const revokeCalendarPermissionSchema = z.object({
+  permissionId: z.string().optional(),
+  email: z.string().optional(),
+  calendarId: z.string().optional(),
+});
 
 const listCalendarEventsSchema = z.object({
+  mailbox: z.string().optional(),
   calendarId: z.string().optional(),
   startAfter: z.string().optional(),
   startBefore: z.string().optional(),
@@ -199,7 +1393,23 @@ const searchCalendarEventsSchema = z.object({
   top: z.number().min(1).max(50).optional().default(25),
 });
 
-const findMeetingTimesSchema = z.object({
+const roomFiltersSchema = z.object({
+  roomList: z.string().optional(),
+  building: z.string().optional(),
+  city: z.string().optional(),
+  floor: z.string().optional(),
+  minCapacity: z.number().min(1).optional(),
+  wheelchairAccessible: z.boolean().optional(),
+  hasAudio: z.boolean().optional(),
+  hasVideo: z.boolean().optional(),
+  hasDisplay: z.boolean().optional(),
+});
+
+const listRoomsSchema = roomFiltersSchema.extend({
+  top: z.number().min(1).max(200).optional().default(50),
+});
+
+const findMeetingTimesSchema = roomFiltersSchema.extend({
   attendees: z.array(z.object({
     email: z.string(),
     type: z.enum(['required', 'optional', 'resource']).optional().default('required'),
@@ -215,22 +1425,52 @@ const findMeetingTimesSchema = z.object({
   timeZone: z.string().optional(),
 });
 
+const getFreeBusySchema = z.object({
+  emails: z.array(z.string()).min(1).max(20),
+  startDateTime: z.string(),
+  endDateTime: z.string(),
+  intervalMinutes: z.number().min(5).max(1440).optional().default(30),
+  timeZone: z.string().optional(),
+  includeAvailabilityView: z.boolean().optional().default(false),
+});
+
 const getCalendarEventSchema = z.object({
   eventId: z.string(),
 });
 
+const listEventAttachmentsSchema = z.object({
+  eventId: z.string(),
+  mailbox: z.string().optional(),
+});
+
+const getEventAttachmentSchema = z.object({
+  eventId: z.string(),
+  attachmentId: z.string(),
+  format: z.enum(['auto', 'text', 'base64']).optional().default('auto'),
+  mailbox: z.string().optional(),
+});
+
 const getCalendarViewSchema = z.object({
   startDateTime: z.string(),
   endDateTime: z.string(),
   calendarId: z.string().optional(),
   top: z.number().min(1).max(50).optional().default(10),
+  mailbox: z.string().optional(),
+});
+
+const listEventInstancesSchema = z.object({
+  eventId: z.string(),
+  startDateTime: z.string(),
+  endDateTime: z.string(),
+  top: z.number().min(1).max(50).optional().default(25),
+  skip: z.number().min(0).optional(),
 });
 
 const createCalendarEventSchema = z.object({
   subject: z.string(),
   start: z.string(),
   end: z.string(),
-  timeZone: z.string().optional().default('Europe/Berlin'),
+  timeZone: z.string().optional(),
   body: z.string().optional(),
   bodyType: z.enum(['html', 'text']).optional().default('text'),
   location: z.string().optional(),
@@ -242,13 +1482,18 @@ const createCalendarEventSchema = z.object({
   isOnlineMeeting: z.boolean().optional().default(true),
   reminderMinutesBeforeStart: z.number().optional(),
   calendarId: z.string().optional(),
+  recurrence: recurrenceSchema.optional(),
+  allowConflicts: z.boolean().optional().default(false),
+  checkAttendees: z.boolean().optional().default(false),
+  attachments: z.array(attachmentInputSchema).optional(),
+  mailbox: z.string().optional(),
 });
 
 const createDraftCalendarEventSchema = z.object({
   subject: z.string(),
   start: z.string(),
   end: z.string(),
-  timeZone: z.string().optional().default('Europe/Berlin'),
+  timeZone: z.string().optional(),
   body: z.string().optional(),
   bodyType: z.enum(['html', 'text']).optional().default('text'),
   location: z.string().optional(),
@@ -260,6 +1505,10 @@ const createDraftCalendarEventSchema = z.object({
   isOnlineMeeting: z.boolean().optional().default(true),
   reminderMinutesBeforeStart: z.number().optional(),
   calendarId: z.string().optional(),
+  recurrence: recurrenceSchema.optional(),
+  allowConflicts: z.boolean().optional().default(false),
+  checkAttendees: z.boolean().optional().default(false),
+  attachments: z.array(attachmentInputSchema).optional(),
 });
 
 const updateCalendarEventSchema = z.object({
@@ -270,14 +1519,73 @@ const updateCalendarEventSchema = z.object({
   timeZone: z.string().optional(),
   body: z.string().optional(),
   location: z.string().optional(),
+  bodyType: z.enum(['html', 'text']).optional().default('text'),
   attendees: z.array(z.object({
     email: z.string(),
     type: z.enum(['required', 'optional']).optional(),
   })).optional(),
+  addAttendees: z.array(z.object({
+    email: z.string(),
+    type: z.enum(['required', 'optional', 'resource']).optional(),
+  })).optional(),
+  removeAttendees: z.array(z.string()).optional(),
+  isOnlineMeeting: z.boolean().optional(),
+  showAs: z.enum(['free', 'tentative', 'busy', 'oof', 'workingElsewhere']).optional(),
+  sensitivity: z.enum(['normal', 'personal', 'private', 'confidential']).optional(),
+  categories: z.array(z.string()).optional(),
+  importance: z.enum(['low', 'normal', 'high']).optional(),
+  isReminderOn: z.boolean().optional(),
+  reminderMinutesBeforeStart: z.number().min(0).optional(),
+  recurrence: recurrenceSchema.optional(),
+  applyTo: z.enum(['occurrence', 'thisAndFollowing', 'series']).optional().default('occurrence'),
+  allowConflicts: z.boolean().optional().default(false),
+  checkAttendees: z.boolean().optional().default(false),
+  attachments: z.array(attachmentInputSchema).optional(),
+  mailbox: z.string().optional(),
 });
 
 const deleteCalendarEventSchema = z.object({
   eventId: z.string(),
+  applyTo: z.enum(['occurrence', 'thisAndFollowing', 'series']).optional().default('occurrence'),
+});
+
+const addRoomToEventSchema = z.object({
+  eventId: z.string(),
+  roomEmail: z.string(),
+  waitSeconds: z.number().min(0).max(30).optional().default(15),
+});
+
+const cancelCalendarEventSchema = z.object({
+  eventId: z.string(),
+  comment: z.string().optional(),
+  applyTo: z.enum(['occurrence', 'series']).optional().default('occurrence'),
+});
+
+const exportEventIcsSchema = z.object({
+  eventId: z.string(),
+  timeZone: z.string().optional(),
+  method: z.enum(['PUBLISH', 'REQUEST']).optional().default('PUBLISH'),
+  asAttachment: z.boolean().optional().default(false),
+});
+
+const importIcsSchema = z.object({
+  ics: z.string().optional(),
+  messageId: z.string().optional(),
+  attachmentId: z.string().optional(),
+  calendarId: z.string().optional(),
+  includeAttendees: z.boolean().optional().default(false),
+  timeZone: z.string().optional(),
+});
+
+const respondToEventSchema = z.object({
+  eventId: z.string(),
+  response: z.enum(['accept', 'tentativelyAccept', 'decline']),
+  comment: z.string().optional(),
+  sendResponse: z.boolean().optional().default(true),
+  applyTo: z.enum(['occurrence', 'series']).optional().default('occurrence'),
+  proposedStart: z.string().optional(),
+  proposedEnd: z.string().optional(),
+  timeZone: z.string().optional(),
 });
 
 // ============================================================================
@@ -287,9 +1595,243 @@ const deleteCalendarEventSchema = z.object({
 /**
  * List all calendars
  */
-async function listCalendars() {
+async function listCalendars(params: Record<string, unknown>) {
+  const { mailbox } = listCalendarsSchema.parse(params);
+  
+  try {
+    const response = await graphRequest<{ value: unknown[] }>(`${getMailboxPath(mailbox)}/calendars`);
+    return handleGraphResponse(withDelegateAccessError(response, mailbox, 'calendar'));
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * List calendar groups, optionally with the calendars in each group
+ */
+async function listCalendarGroups(params: Record<string, unknown>) {
+  const { includeCalendars } = listCalendarGroupsSchema.parse(params);
+
+  try {
+    const response = await graphRequest<{ value: Array<{ id: string; name?: string }> }>('/me/calendarGroups');
+    if (!response.ok || !includeCalendars) {
+      return handleGraphResponse(response);
+    }
+
+    // One request per group; mailboxes rarely have more than a handful
+    const groups = [];
+    for (const group of response.data.value ?? []) {
+      const calendarsResponse = await graphRequest<{ value: unknown[] }>(
+        `/me/calendarGroups/${sanitizePathSegment(group.id, 'calendarGroupId')}/calendars?$select=id,name,color,isDefaultCalendar,canEdit`
+      );
+      if (!calendarsResponse.ok) {
+        return handleGraphResponse(calendarsResponse);
+      }
+      groups.push({ ...group, calendars: calendarsResponse.data.value ?? [] });
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse({ value: groups }),
+      }],
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Create a secondary calendar, in the default group or a given calendar group
+ */
+async function createCalendar(params: Record<string, unknown>) {
+  const { name, color, calendarGroupId } = createCalendarSchema.parse(params);
+
+  try {
+    const endpoint = calendarGroupId
+      ? `/me/calendarGroups/${sanitizePathSegment(calendarGroupId, 'calendarGroupId')}/calendars`
+      : '/me/calendars';
+
+    const response = await graphRequest(endpoint, {
+      method: 'POST',
+      body: { name, ...(color && { color }) },
+    });
+
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Rename a calendar or change its color
+ */
+async function updateCalendar(params: Record<string, unknown>) {
+  const { calendarId, name, color } = updateCalendarSchema.parse(params);
+
+  if (!name && !color) {
+    return formatErrorResponse(new Error('At least one field to update is required (name, color)'));
+  }
+
+  try {
+    const response = await graphRequest(`/me/calendars/${sanitizePathSegment(calendarId, 'calendarId')}`, {
+      method: 'PATCH',
+      body: { ...(name && { name }), ...(color && { color }) },
+    });
+
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Delete a secondary calendar and all its events
+ */
+async function deleteCalendar(params: Record<string, unknown>) {
+  const { calendarId } = deleteCalendarSchema.parse(params);
+
+  try {
+    const calendarPath = `/me/calendars/${sanitizePathSegment(calendarId, 'calendarId')}`;
+
+    // Graph's error for the primary calendar doesn't say why it failed
+    const calendarResponse = await graphRequest<{ name?: string; isDefaultCalendar?: boolean }>(
+      `${calendarPath}?$select=name,isDefaultCalendar`
+    );
+    if (!calendarResponse.ok) {
+      return handleGraphResponse(calendarResponse);
+    }
+    if (calendarResponse.data.isDefaultCalendar) {
+      return formatErrorResponse(new Error(`Cannot delete the primary calendar "${calendarResponse.data.name}"`));
+    }
+
+    const response = await graphRequest(calendarPath, {
+      method: 'DELETE',
+    });
+
+    if (response.status === 204 || response.ok) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: serializeResponse({ success: true, message: `Calendar "${calendarResponse.data.name}" deleted` }),
+        }],
+      };
+    }
+
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * List who a calendar is shared with and their roles
+ */
+async function listCalendarPermissions(params: Record<string, unknown>) {
+  const { calendarId } = listCalendarPermissionsSchema.parse(params);
+
+  try {
+    const permissions = await getCalendarPermissions(getCalendarPermissionsPath(calendarId));
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse({ permissions: permissions.map(formatPermission) }),
+      }],
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Share a calendar with a person, or change the role they already have
+ */
+async function shareCalendar(params: Record<string, unknown>) {
+  const { email, name, role, includePrivateEvents, calendarId } = shareCalendarSchema.parse(params);
+
+  try {
+    const address = sanitizeEmailAddress(email, 'email');
+    const graphRole = toGraphRole(role, includePrivateEvents);
+    const permissionsPath = getCalendarPermissionsPath(calendarId);
+    const existing = findPermissionByEmail(await getCalendarPermissions(permissionsPath), address);
+
+    // Graph keeps one permission per person; only its role can be changed
+    const response = existing
+      ? await graphRequest<CalendarPermission>(`${permissionsPath}/${sanitizePathSegment(existing.id, 'permissionId')}`, {
+          method: 'PATCH',
+          body: { role: graphRole },
+        })
+      : await graphRequest<CalendarPermission>(permissionsPath, {
+          method: 'POST',
+          body: {
+            emailAddress: { address, name: name || address },
+            role: graphRole,
+          },
+        });
+
+    if (!response.ok) {
+      return handleGraphResponse(response);
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse({
+          success: true,
+          message: existing
+            ? `Role of ${address} changed from ${existing.role} to ${graphRole}`
+            : `Calendar shared with ${address} as ${graphRole}`,
+          permission: formatPermission(response.data),
+        }),
+      }],
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Remove a person's access to a calendar
+ */
+async function revokeCalendarPermission(params: Record<string, unknown>) {
+  const { permissionId, email, calendarId } = revokeCalendarPermissionSchema.parse(params);
+
+  if (!permissionId && !email) {
+    return formatErrorResponse(new Error('Either permissionId or email is required'));
+  }
+
   try {
-    const response = await graphRequest<{ value: unknown[] }>('/me/calendars');
+    const permissionsPath = getCalendarPermissionsPath(calendarId);
+    let targetId = permissionId;
+
+    if (!targetId) {
+      const address = sanitizeEmailAddress(email!, 'email');
+      const permission = findPermissionByEmail(await getCalendarPermissions(permissionsPath), address);
+      if (!permission) {
+        return formatErrorResponse(new Error(`Calendar is not shared with ${address}`));
+      }
+      if (permission.isRemovable === false) {
+        return formatErrorResponse(new Error(`Permission of ${address} cannot be removed`));
+      }
+      targetId = permission.id;
+    }
+
+    const response = await graphRequest(`${permissionsPath}/${sanitizePathSegment(targetId, 'permissionId')}`, {
+      method: 'DELETE',
+    });
+
+    if (response.status === 204 || response.ok) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: serializeResponse({
+            success: true,
+            message: `Calendar access removed${email ? ` for ${email}` : ''}`,
+          }),
+        }],
+      };
+    }
+
     return handleGraphResponse(response);
   } catch (error) {
     return formatErrorResponse(error);
@@ -301,16 +1843,17 @@ async function listCalendars() {
  * Uses calendarView for proper recurring event expansion
  */
 async function listCalendarEvents(params: Record<string, unknown>) {
-  const { calendarId, startAfter, startBefore, top, skip, orderBy } = listCalendarEventsSchema.parse(params);
+  const { mailbox, calendarId, startAfter, startBefore, top, skip, orderBy } = listCalendarEventsSchema.parse(params);
   
   try {
+    const mailboxPath = getMailboxPath(mailbox);
     const queryParams = new URLSearchParams();
     
     if (top) queryParams.set('$top', String(top));
     if (skip) queryParams.set('$skip', String(skip));
     if (orderBy) queryParams.set('$orderby', orderBy);
     
-    queryParams.set('$select', 'id,subject,start,end,location,organizer,attendees,isAllDay,isCancelled,isOnlineMeeting,onlineMeetingUrl,bodyPreview');
+    queryParams.set('$select', 'id,subject,start,end,location,organizer,attendees,isAllDay,isCancelled,isOnlineMeeting,onlineMeetingUrl,bodyPreview,type,seriesMasterId');
     
     // If date range is provided, use calendarView for proper recurring event expansion
     if (startAfter && startBefore) {
@@ -318,8 +1861,8 @@ async function listCalendarEvents(params: Record<string, unknown>) {
       queryParams.set('endDateTime', startBefore);
       
       const endpoint = calendarId 
-        ? `/me/calendars/${sanitizePathSegment(calendarId, 'calendarId')}/calendarView`
-        : '/me/calendarView';
+        ? `${mailboxPath}/calendars/${sanitizePathSegment(calendarId, 'calendarId')}/calendarView`
+        : `${mailboxPath}/calendarView`;
       
       const url = `${endpoint}?${queryParams.toString()}`;
       const response = await graphRequest<{ value: unknown[] }>(url);
@@ -330,7 +1873,7 @@ async function listCalendarEvents(params: Record<string, unknown>) {
         data.value = enrichEventsWithDayInfo(data.value);
       }
       
-      return handleGraphResponse(response);
+      return handleGraphResponse(withDelegateAccessError(response, mailbox, 'calendar'));
     }
     
     // Otherwise use events endpoint with filter
@@ -342,8 +1885,8 @@ async function listCalendarEvents(params: Record<string, unknown>) {
     }
     
     const endpoint = calendarId 
-      ? `/me/calendars/${sanitizePathSegment(calendarId, 'calendarId')}/events`
-      : '/me/events';
+      ? `${mailboxPath}/calendars/${sanitizePathSegment(calendarId, 'calendarId')}/events`
+      : `${mailboxPath}/events`;
     
     const url = `${endpoint}?${queryParams.toString()}`;
     
@@ -355,7 +1898,7 @@ async function listCalendarEvents(params: Record<string, unknown>) {
       data.value = enrichEventsWithDayInfo(data.value);
     }
     
-    return handleGraphResponse(response);
+    return handleGraphResponse(withDelegateAccessError(response, mailbox, 'calendar'));
   } catch (error) {
     return formatErrorResponse(error);
   }
@@ -575,32 +2118,92 @@ function isWithinMeetingHours(
   return time >= startTime && time < endTime;
 }
 
+/**
+ * List meeting rooms, filtered by room list, location, capacity and equipment
+ */
+async function listRooms(params: Record<string, unknown>) {
+  const { top, ...filters } = listRoomsSchema.parse(params);
+  
+  try {
+    const rooms = await findRooms(filters);
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse({
+          total: rooms.length,
+          rooms: rooms.slice(0, top).map(room => ({
+            name: room.displayName,
+            email: room.emailAddress,
+            building: room.building,
+            floor: room.floor,
+            city: room.city,
+            capacity: room.capacity,
+            wheelchairAccessible: room.isWheelChairAccessible,
+            audio: room.audioDeviceName,
+            video: room.videoDeviceName,
+            display: room.displayDeviceName,
+            roomList: room.roomList,
+          })),
+        }),
+      }],
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
 /**
  * Find available meeting times when all attendees are free
  */
 async function findMeetingTimes(params: Record<string, unknown>) {
   const parsed = findMeetingTimesSchema.parse(params);
   let { attendees, durationMinutes, searchWindowStart, searchWindowEnd, meetingHoursStart, meetingHoursEnd, isOnlineMeeting, isOrganizerOptional, maxSuggestions, timeZone } = parsed;
-  
-  // Auto-fetch rooms for in-person meetings
-  let roomMetadata: Array<{ emailAddress: string; displayName: string; building?: string; city?: string }> = [];
-  if (isOnlineMeeting === false) {
-    const rooms = await fetchAllRooms();
-    
-    // Store room metadata for later response processing
-    roomMetadata = rooms;
-    
-    // Add rooms as resource attendees
-    const roomAttendees = rooms.map(room => ({
-      email: room.emailAddress,
-      type: 'resource' as const,
-    }));
-    
-    // Merge with existing attendees
-    attendees = [...attendees, ...roomAttendees];
-  }
+  const { roomList, building, city, floor, minCapacity, wheelchairAccessible, hasAudio, hasVideo, hasDisplay } = parsed;
+  const roomFilters = { roomList, building, city, floor, minCapacity, wheelchairAccessible, hasAudio, hasVideo, hasDisplay };
   
   try {
+    // Auto-fetch rooms for in-person meetings
+    let roomMetadata: Room[] = [];
+    if (isOnlineMeeting === false) {
+      // Explicit filters surface lookup errors; the unfiltered lookup degrades gracefully
+      const rooms = hasRoomFilters(roomFilters)
+        ? await findRooms(roomFilters)
+        : await findRooms().catch(() => []);
+      
+      // Store room metadata for later response processing
+      roomMetadata = rooms.slice(0, MAX_MEETING_ROOMS);
+      
+      // Add rooms as resource attendees
+      const roomAttendees = roomMetadata.map(room => ({
+        email: room.emailAddress,
+        type: 'resource' as const,
+      }));
+      
+      // Merge with existing attendees
+      attendees = [...attendees, ...roomAttendees];
+    }
+    
+    const constraintTimeZone = timeZone || await getDefaultTimeZone();
+    
+    // Without explicit meeting hours, suggest only times within the user's working hours.
+    // Suggestions are compared as local times, so they are requested in the working hours'
+    // zone; a different explicit timeZone leaves the suggestions unfiltered.
+    let meetingDays: string[] | undefined;
+    let responseTimeZone = timeZone;
+    let hoursFromWorkingHours = false;
+    if (!meetingHoursStart && !meetingHoursEnd) {
+      const workingHours = (await getMailboxSettings())?.workingHours;
+      const workingTimeZone = workingHours?.timeZone?.name || constraintTimeZone;
+      if (workingHours?.startTime && workingHours.endTime && (!timeZone || timeZone === workingTimeZone)) {
+        meetingHoursStart = workingHours.startTime;
+        meetingHoursEnd = workingHours.endTime;
+        meetingDays = workingHours.daysOfWeek?.map(day => day.toLowerCase());
+        responseTimeZone = workingTimeZone;
+        hoursFromWorkingHours = true;
+      }
+    }
+    
     // Build the request body for findMeetingTimes
     const requestBody: Record<string, unknown> = {
       attendees: attendees.map(a => ({
@@ -619,11 +2222,11 @@ async function findMeetingTimes(params: Record<string, unknown>) {
       timeSlots: [{
         start: {
           dateTime: searchWindowStart,
-          timeZone: timeZone || 'Europe/Berlin',
+          timeZone: constraintTimeZone,
         },
         end: {
           dateTime: searchWindowEnd,
-          timeZone: timeZone || 'Europe/Berlin',
+          timeZone: constraintTimeZone,
         },
       }],
     };
@@ -645,7 +2248,7 @@ async function findMeetingTimes(params: Record<string, unknown>) {
     const response = await graphRequest('/me/findMeetingTimes', {
       method: 'POST',
       body: requestBody,
-      headers: timeZone ? { 'Prefer': `outlook.timezone="${sanitizeTimezone(timeZone)}"` } : undefined,
+      headers: responseTimeZone ? preferTimeZone(responseTimeZone) : undefined,
     });
     
     // Client-side filtering for meeting hours constraint
@@ -666,6 +2269,8 @@ async function findMeetingTimes(params: Record<string, unknown>) {
         const filteredSuggestions = data.meetingTimeSuggestions.filter(suggestion => {
           const startTime = suggestion.meetingTimeSlot?.start?.dateTime;
           if (!startTime) return true;
+          const day = getDayOfWeek(startTime)?.day.toLowerCase();
+          if (meetingDays?.length && day && !meetingDays.includes(day)) return false;
           return isWithinMeetingHours(startTime, meetingHoursStart, meetingHoursEnd);
         });
         
@@ -707,6 +2312,7 @@ async function findMeetingTimes(params: Record<string, unknown>) {
                 filtered: enrichedSuggestions.length,
                 meetingHoursStart,
                 meetingHoursEnd,
+                ...(hoursFromWorkingHours && { source: 'workingHours', days: meetingDays }),
               },
             }),
           }],
@@ -751,7 +2357,105 @@ async function findMeetingTimes(params: Record<string, unknown>) {
       }) as typeof data.meetingTimeSuggestions;
     }
     
-    return handleGraphResponse(response);
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+// Stronger statuses win when overlapping blocks are merged
+const BUSY_STATUS_RANK: Record<string, number> = {
+  workingElsewhere: 1,
+  tentative: 2,
+  busy: 3,
+  oof: 4,
+};
+
+/**
+ * Merge overlapping or adjacent schedule items into compact busy blocks
+ * Free time is dropped; the strongest status of merged items is kept.
+ */
+function mergeBusyBlocks(items: ScheduleItem[]): Array<{ start: string; end: string; status: string; day?: string }> {
+  const blocks = items
+    .filter(item => item.status && item.status !== 'free' && item.start?.dateTime && item.end?.dateTime)
+    .map(item => ({
+      start: item.start!.dateTime!.slice(0, 19),
+      end: item.end!.dateTime!.slice(0, 19),
+      status: item.status!,
+    }))
+    .sort((a, b) => a.start.localeCompare(b.start));
+  
+  const merged: typeof blocks = [];
+  for (const block of blocks) {
+    const last = merged[merged.length - 1];
+    if (last && block.start <= last.end) {
+      if (block.end > last.end) last.end = block.end;
+      if ((BUSY_STATUS_RANK[block.status] ?? 0) > (BUSY_STATUS_RANK[last.status] ?? 0)) {
+        last.status = block.status;
+      }
+    } else {
+      merged.push({ ...block });
+    }
+  }
+  
+  return merged.map(block => ({ ...block, day: getDayOfWeek(block.start)?.day }));
+}
+
+/**
+ * Get free/busy information for people and rooms
+ * Returns merged busy blocks and working hours per schedule.
+ */
+async function getFreeBusy(params: Record<string, unknown>) {
+  const { 
+    emails, startDateTime, endDateTime, intervalMinutes, timeZone, includeAvailabilityView 
+  } = getFreeBusySchema.parse(params);
+  
+  try {
+    const scheduleTimeZone = timeZone || await getDefaultTimeZone();
+    
+    const response = await graphRequest<{ value?: ScheduleInformation[] }>('/me/calendar/getSchedule', {
+      method: 'POST',
+      body: {
+        schedules: emails,
+        startTime: { dateTime: startDateTime, timeZone: scheduleTimeZone },
+        endTime: { dateTime: endDateTime, timeZone: scheduleTimeZone },
+        availabilityViewInterval: intervalMinutes,
+      },
+      headers: preferTimeZone(scheduleTimeZone),
+    });
+    
+    if (!response.ok) {
+      return handleGraphResponse(response);
+    }
+    
+    const schedules = (response.data.value || []).map(schedule => {
+      if (schedule.error) {
+        return {
+          email: schedule.scheduleId,
+          error: schedule.error.message || schedule.error.responseCode,
+        };
+      }
+      
+      const workingHours = schedule.workingHours;
+      return {
+        email: schedule.scheduleId,
+        busy: mergeBusyBlocks(schedule.scheduleItems || []),
+        workingHours: workingHours ? {
+          days: workingHours.daysOfWeek,
+          start: workingHours.startTime?.slice(0, 5),
+          end: workingHours.endTime?.slice(0, 5),
+          timeZone: workingHours.timeZone?.name,
+        } : undefined,
+        ...(includeAvailabilityView ? { availabilityView: schedule.availabilityView } : {}),
+      };
+    });
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse({ timeZone: scheduleTimeZone, schedules }),
+      }],
+    };
   } catch (error) {
     return formatErrorResponse(error);
   }
@@ -777,22 +2481,55 @@ async function getCalendarEvent(params: Record<string, unknown>) {
   }
 }
 
+/**
+ * List attachments of a calendar event (metadata only)
+ */
+async function listEventAttachments(params: Record<string, unknown>) {
+  const { eventId, mailbox } = listEventAttachmentsSchema.parse(params);
+
+  try {
+    const response = await listAttachments(`${getMailboxPath(mailbox)}/events/${sanitizePathSegment(eventId, 'eventId')}`);
+    return handleGraphResponse(withDelegateAccessError(response, mailbox, 'calendar'));
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Get a single event attachment including its content
+ */
+async function getEventAttachment(params: Record<string, unknown>) {
+  const { eventId, attachmentId, format, mailbox } = getEventAttachmentSchema.parse(params);
+
+  try {
+    const response = await readAttachment(
+      `${getMailboxPath(mailbox)}/events/${sanitizePathSegment(eventId, 'eventId')}`,
+      attachmentId,
+      { format }
+    );
+    return handleGraphResponse(withDelegateAccessError(response, mailbox, 'calendar'));
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
 /**
  * Get calendar view for a time range
  */
 async function getCalendarView(params: Record<string, unknown>) {
-  const { startDateTime, endDateTime, calendarId, top } = getCalendarViewSchema.parse(params);
+  const { startDateTime, endDateTime, calendarId, top, mailbox } = getCalendarViewSchema.parse(params);
   
   try {
+    const mailboxPath = getMailboxPath(mailbox);
     const queryParams = new URLSearchParams();
     queryParams.set('startDateTime', startDateTime);
     queryParams.set('endDateTime', endDateTime);
     if (top) queryParams.set('$top', String(top));
-    queryParams.set('$select', 'id,subject,start,end,location,organizer,attendees,isAllDay,isCancelled,bodyPreview');
+    queryParams.set('$select', 'id,subject,start,end,location,organizer,attendees,isAllDay,isCancelled,bodyPreview,type,seriesMasterId');
     
     const endpoint = calendarId 
-      ? `/me/calendars/${sanitizePathSegment(calendarId, 'calendarId')}/calendarView`
-      : '/me/calendarView';
+      ? `${mailboxPath}/calendars/${sanitizePathSegment(calendarId, 'calendarId')}/calendarView`
+      : `${mailboxPath}/calendarView`;
     
     const url = `${endpoint}?${queryParams.toString()}`;
     
@@ -804,6 +2541,46 @@ async function getCalendarView(params: Record<string, unknown>) {
       data.value = enrichEventsWithDayInfo(data.value);
     }
     
+    return handleGraphResponse(withDelegateAccessError(response, mailbox, 'calendar'));
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * List the occurrences and exceptions of a recurring series in a date window
+ * Accepts the series master ID or the ID of any occurrence.
+ */
+async function listEventInstances(params: Record<string, unknown>) {
+  const { eventId, startDateTime, endDateTime, top, skip } = listEventInstancesSchema.parse(params);
+  
+  try {
+    const masterId = sanitizePathSegment(await getSeriesMasterId(eventId), 'seriesMasterId');
+    
+    const queryParams = new URLSearchParams();
+    queryParams.set('startDateTime', startDateTime);
+    queryParams.set('endDateTime', endDateTime);
+    if (top) queryParams.set('$top', String(top));
+    if (skip) queryParams.set('$skip', String(skip));
+    queryParams.set('$orderby', 'start/dateTime');
+    queryParams.set('$select', 'id,subject,start,end,type,originalStart,isCancelled,location,seriesMasterId');
+    
+    const response = await graphRequest<{ value: unknown[] }>(
+      `/me/events/${masterId}/instances?${queryParams.toString()}`
+    );
+    
+    // Enrich events with day of week info
+    const data = response.data as { value?: unknown[]; removedOccurrences?: string[] } | undefined;
+    if (data?.value) {
+      data.value = enrichEventsWithDayInfo(data.value);
+      
+      // Deleted occurrences are simply missing from /instances
+      const removed = await findRemovedOccurrences(masterId, startDateTime.slice(0, 10), endDateTime.slice(0, 10));
+      if (removed.length > 0) {
+        data.removedOccurrences = removed;
+      }
+    }
+    
     return handleGraphResponse(response);
   } catch (error) {
     return formatErrorResponse(error);
@@ -816,19 +2593,38 @@ async function getCalendarView(params: Record<string, unknown>) {
 async function createCalendarEvent(params: Record<string, unknown>) {
   const { 
     subject, start, end, timeZone, body, bodyType, 
-    location, attendees, isAllDay, isOnlineMeeting, reminderMinutesBeforeStart, calendarId 
+    location, attendees, isAllDay, isOnlineMeeting, reminderMinutesBeforeStart, calendarId, recurrence,
+    allowConflicts, checkAttendees, attachments, mailbox 
   } = createCalendarEventSchema.parse(params);
   
   try {
+    const mailboxPath = getMailboxPath(mailbox);
+    const preparedAttachments = prepareAttachments(attachments || []);
+    const eventTimeZone = timeZone || await getDefaultTimeZone();
+    
+    if (!allowConflicts && !isAllDay) {
+      const conflicts = await findConflicts({
+        start,
+        end,
+        timeZone: eventTimeZone,
+        attendees: checkAttendees ? attendees?.map(a => a.email) : undefined,
+        mailbox,
+        calendarId,
+      });
+      if (conflicts.length > 0) {
+        return formatConflictResponse(conflicts);
+      }
+    }
+    
     const event: Record<string, unknown> = {
       subject,
       start: {
         dateTime: start,
-        timeZone: timeZone || 'Europe/Berlin',
+        timeZone: eventTimeZone,
       },
       end: {
         dateTime: end,
-        timeZone: timeZone || 'Europe/Berlin',
+        timeZone: eventTimeZone,
       },
       isAllDay,
     };
@@ -860,16 +2656,27 @@ async function createCalendarEvent(params: Record<string, unknown>) {
       event.isReminderOn = true;
     }
     
+    if (recurrence) {
+      event.recurrence = buildPatternedRecurrence(recurrence, start, eventTimeZone);
+    }
+    
     const endpoint = calendarId 
-      ? `/me/calendars/${sanitizePathSegment(calendarId, 'calendarId')}/events`
-      : '/me/events';
+      ? `${mailboxPath}/calendars/${sanitizePathSegment(calendarId, 'calendarId')}/events`
+      : `${mailboxPath}/events`;
     
-    const response = await graphRequest(endpoint, {
+    // With attachments, attendees are invited once the files are uploaded
+    const { attendees: invitees, ...withoutAttendees } = event;
+    const response = await graphRequest<{ id?: string }>(endpoint, {
       method: 'POST',
-      body: event,
+      body: preparedAttachments.length ? withoutAttendees : event,
     });
     
-    return handleGraphResponse(response);
+    if (response.ok && response.data?.id && preparedAttachments.length) {
+      const attached = await attachToNewEvent(mailboxPath, response.data.id, preparedAttachments, invitees as unknown[] | undefined);
+      return handleGraphResponse(withDelegateAccessError(attached, mailbox, 'calendar'));
+    }
+    
+    return handleGraphResponse(withDelegateAccessError(response, mailbox, 'calendar'));
   } catch (error) {
     return formatErrorResponse(error);
   }
@@ -881,19 +2688,36 @@ async function createCalendarEvent(params: Record<string, unknown>) {
 async function createDraftCalendarEvent(params: Record<string, unknown>) {
   const { 
     subject, start, end, timeZone, body, bodyType, 
-    location, attendees, isAllDay, isOnlineMeeting, reminderMinutesBeforeStart, calendarId 
+    location, attendees, isAllDay, isOnlineMeeting, reminderMinutesBeforeStart, calendarId, recurrence,
+    allowConflicts, checkAttendees, attachments 
   } = createDraftCalendarEventSchema.parse(params);
   
   try {
+    const preparedAttachments = prepareAttachments(attachments || []);
+    const eventTimeZone = timeZone || await getDefaultTimeZone();
+    
+    if (!allowConflicts && !isAllDay) {
+      const conflicts = await findConflicts({
+        start,
+        end,
+        timeZone: eventTimeZone,
+        attendees: checkAttendees ? attendees?.map(a => a.email) : undefined,
+        calendarId,
+      });
+      if (conflicts.length > 0) {
+        return formatConflictResponse(conflicts);
+      }
+    }
+    
     const event: Record<string, unknown> = {
       subject,
       start: {
         dateTime: start,
-        timeZone: timeZone || 'Europe/Berlin',
+        timeZone: eventTimeZone,
       },
       end: {
         dateTime: end,
-        timeZone: timeZone || 'Europe/Berlin',
+        timeZone: eventTimeZone,
       },
       isAllDay,
       isDraft: true,
@@ -926,15 +2750,24 @@ async function createDraftCalendarEvent(params: Record<string, unknown>) {
       event.isReminderOn = true;
     }
     
+    if (recurrence) {
+      event.recurrence = buildPatternedRecurrence(recurrence, start, eventTimeZone);
+    }
+    
     const endpoint = calendarId 
       ? `/me/calendars/${sanitizePathSegment(calendarId, 'calendarId')}/events`
       : '/me/events';
     
-    const response = await graphRequest(endpoint, {
+    const response = await graphRequest<{ id?: string }>(endpoint, {
       method: 'POST',
       body: event,
     });
     
+    // Drafts send no invitations, so attendees can stay on the event
+    if (response.ok && response.data?.id && preparedAttachments.length) {
+      return handleGraphResponse(await attachToNewEvent('/me', response.data.id, preparedAttachments));
+    }
+    
     return handleGraphResponse(response);
   } catch (error) {
     return formatErrorResponse(error);
@@ -943,65 +2776,620 @@ async function createDraftCalendarEvent(params: Record<string, unknown>) {
 
 /**
  * Update a calendar event
+ * applyTo targets the given event/occurrence, this and following
+ * occurrences, or the whole series.
  */
 async function updateCalendarEvent(params: Record<string, unknown>) {
-  const { eventId, subject, start, end, timeZone, body, location, attendees } = updateCalendarEventSchema.parse(params);
+  const { 
+    eventId, subject, start, end, timeZone, body, bodyType, location, attendees, addAttendees, removeAttendees,
+    isOnlineMeeting, showAs, sensitivity, categories, importance, isReminderOn, reminderMinutesBeforeStart,
+    recurrence, applyTo, allowConflicts, checkAttendees, attachments, mailbox 
+  } = updateCalendarEventSchema.parse(params);
   
   try {
+    const mailboxPath = getMailboxPath(mailbox);
+    const preparedAttachments = prepareAttachments(attachments || []);
+    const attendeeChanges = addAttendees || removeAttendees
+      ? { add: addAttendees, remove: removeAttendees }
+      : undefined;
+    if (attendees !== undefined && attendeeChanges) {
+      return formatErrorResponse(new Error('Use either attendees (replace all) or addAttendees/removeAttendees, not both'));
+    }
+    
     const updates: Record<string, unknown> = {};
+    const needsTimeZone = start !== undefined || end !== undefined || recurrence !== undefined;
+    const eventTimeZone = timeZone || (needsTimeZone ? await getDefaultTimeZone() : undefined);
     
     if (subject !== undefined) updates.subject = subject;
     if (start !== undefined) {
-      updates.start = { dateTime: start, timeZone: timeZone || 'Europe/Berlin' };
+      updates.start = { dateTime: start, timeZone: eventTimeZone };
     }
     if (end !== undefined) {
-      updates.end = { dateTime: end, timeZone: timeZone || 'Europe/Berlin' };
+      updates.end = { dateTime: end, timeZone: eventTimeZone };
     }
     if (body !== undefined) {
-      updates.body = { contentType: 'Text', content: body };
+      updates.body = { contentType: bodyType === 'html' ? 'HTML' : 'Text', content: body };
     }
     if (location !== undefined) {
       updates.location = { displayName: location };
     }
-    if (attendees !== undefined) {
-      updates.attendees = attendees.map(a => ({
-        emailAddress: { address: a.email },
-        type: a.type || 'required',
-      }));
+    if (attendees !== undefined) {
+      updates.attendees = attendees.map(a => ({
+        emailAddress: { address: a.email },
+        type: a.type || 'required',
+      }));
+    }
+    if (isOnlineMeeting !== undefined) updates.isOnlineMeeting = isOnlineMeeting;
+    if (showAs !== undefined) updates.showAs = showAs;
+    if (sensitivity !== undefined) updates.sensitivity = sensitivity;
+    if (categories !== undefined) updates.categories = categories;
+    if (importance !== undefined) updates.importance = importance;
+    if (isReminderOn !== undefined) updates.isReminderOn = isReminderOn;
+    if (reminderMinutesBeforeStart !== undefined) {
+      updates.reminderMinutesBeforeStart = reminderMinutesBeforeStart;
+      updates.isReminderOn ??= true;
+    }
+    
+    if (applyTo === 'thisAndFollowing') {
+      const result: Record<string, unknown> = await updateThisAndFollowing(eventId, updates, recurrence, attendeeChanges, mailbox);
+      
+      // The series is already split at this point, so report upload failures with the result
+      if (preparedAttachments.length) {
+        const seriesId = (result.series as { id: string }).id;
+        try {
+          await addAttachments(`${mailboxPath}/events/${sanitizePathSegment(seriesId, 'seriesMasterId')}`, preparedAttachments);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          result._warning = `The series was updated, but the attachments could not be added to the new series (id: ${seriesId}): ${message}`;
+        }
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: serializeResponse(result),
+        }],
+      };
+    }
+    
+    let targetId = sanitizePathSegment(eventId, 'eventId');
+    
+    if (applyTo === 'series') {
+      targetId = sanitizePathSegment(await getSeriesMasterId(eventId, mailbox), 'seriesMasterId');
+      
+      // Changing the time of a series keeps its first date; only the time of day moves
+      if (start !== undefined || end !== undefined || recurrence) {
+        const masterResponse = await graphRequest<SeriesEvent>(
+          `${mailboxPath}/events/${targetId}?$select=start,end,recurrence`,
+          { headers: preferTimeZone(eventTimeZone!) }
+        );
+        if (!masterResponse.ok) {
+          return handleGraphResponse(withDelegateAccessError(masterResponse, mailbox, 'calendar'));
+        }
+        const master = masterResponse.data;
+        const firstDate = master.recurrence?.range.startDate ?? master.start!.dateTime.slice(0, 10);
+        
+        if (start !== undefined) {
+          updates.start = { dateTime: `${firstDate}${start.slice(10)}`, timeZone: eventTimeZone };
+        }
+        if (end !== undefined) {
+          const days = start !== undefined
+            ? daysBetween(start, end)
+            : daysBetween(master.start!.dateTime, master.end!.dateTime);
+          updates.end = { dateTime: `${addDays(firstDate, days)}${end.slice(10)}`, timeZone: eventTimeZone };
+        }
+        if (recurrence) {
+          const seriesStart = (updates.start as { dateTime: string } | undefined)?.dateTime ?? master.start!.dateTime;
+          updates.recurrence = buildPatternedRecurrence(recurrence, seriesStart, eventTimeZone!);
+        }
+      }
+    } else {
+      const checkConflicts = (start !== undefined || end !== undefined) && !allowConflicts;
+      
+      if (attendeeChanges || checkConflicts || (recurrence && !start)) {
+        const currentResponse = await graphRequest<{
+          start?: { dateTime: string };
+          end?: { dateTime: string };
+          attendees?: EventAttendee[];
+          isAllDay?: boolean;
+        }>(`${mailboxPath}/events/${targetId}?$select=start,end,attendees,isAllDay`, {
+          headers: eventTimeZone ? preferTimeZone(eventTimeZone) : undefined,
+        });
+        if (!currentResponse.ok) {
+          return handleGraphResponse(withDelegateAccessError(currentResponse, mailbox, 'calendar'));
+        }
+        const current = currentResponse.data;
+        
+        // Merge against the current attendees so existing ones keep their response status
+        if (attendeeChanges) {
+          updates.attendees = mergeAttendees(current.attendees ?? [], attendeeChanges);
+        }
+        
+        if (checkConflicts && !current.isAllDay) {
+          const finalAttendees = (updates.attendees as EventAttendee[] | undefined) ?? current.attendees ?? [];
+          const conflicts = await findConflicts({
+            start: start ?? current.start!.dateTime,
+            end: end ?? current.end!.dateTime,
+            timeZone: eventTimeZone!,
+            attendees: checkAttendees
+              ? finalAttendees.map(a => a.emailAddress?.address).filter((email): email is string => !!email)
+              : undefined,
+            ignoreEventId: targetId,
+            currentSlot: { start: current.start!.dateTime, end: current.end!.dateTime },
+            mailbox,
+          });
+          if (conflicts.length > 0) {
+            return formatConflictResponse(conflicts);
+          }
+        }
+        
+        if (recurrence) {
+          // Turning a single event into a series
+          updates.recurrence = buildPatternedRecurrence(recurrence, start ?? current.start!.dateTime, eventTimeZone!);
+        }
+      } else if (recurrence) {
+        updates.recurrence = buildPatternedRecurrence(recurrence, start!, eventTimeZone!);
+      }
+    }
+    
+    // Series: merge against the master's attendees so existing ones keep their response status
+    if (attendeeChanges && applyTo === 'series') {
+      const current = await graphRequest<{ attendees?: EventAttendee[] }>(`${mailboxPath}/events/${targetId}?$select=attendees`);
+      if (!current.ok) {
+        return handleGraphResponse(withDelegateAccessError(current, mailbox, 'calendar'));
+      }
+      updates.attendees = mergeAttendees(current.data.attendees ?? [], attendeeChanges);
+    }
+    
+    // Attach before saving the other changes so the update sent to attendees includes the files
+    if (preparedAttachments.length) {
+      await addAttachments(`${mailboxPath}/events/${targetId}`, preparedAttachments);
+    }
+    
+    const response = await graphRequest(`${mailboxPath}/events/${targetId}`, {
+      method: 'PATCH',
+      body: updates,
+    });
+    
+    return handleGraphResponse(withDelegateAccessError(response, mailbox, 'calendar'));
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Delete a calendar event
+ * applyTo deletes the given event/occurrence, this and following
+ * occurrences (by ending the series early), or the whole series.
+ */
+async function deleteCalendarEvent(params: Record<string, unknown>) {
+  const { eventId, applyTo } = deleteCalendarEventSchema.parse(params);
+  
+  try {
+    if (applyTo === 'thisAndFollowing') {
+      const { master, occurrenceDate } = await getOccurrenceWithSeries(eventId);
+      
+      // Deleting from the first occurrence onwards removes the whole series
+      if (occurrenceDate > master.recurrence!.range.startDate) {
+        const response = await endSeriesBefore(master, occurrenceDate);
+        if (!response.ok) {
+          return handleGraphResponse(response);
+        }
+        return {
+          content: [{
+            type: 'text' as const,
+            text: serializeResponse({ 
+              success: true, 
+              message: `Series now ends on ${addDays(occurrenceDate, -1)}; this and following occurrences deleted`,
+            }),
+          }],
+        };
+      }
+    }
+    
+    const targetId = applyTo === 'occurrence'
+      ? sanitizePathSegment(eventId, 'eventId')
+      : sanitizePathSegment(await getSeriesMasterId(eventId), 'seriesMasterId');
+    
+    const response = await graphRequest(`/me/events/${targetId}`, {
+      method: 'DELETE',
+    });
+    
+    if (response.status === 204 || response.ok) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: serializeResponse({ 
+            success: true, 
+            message: applyTo === 'occurrence' ? 'Event deleted' : 'Series deleted',
+          }),
+        }],
+      };
+    }
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Book a room on an existing event
+ * Adds the room as a resource attendee, makes it the event location and
+ * waits for the room mailbox to accept or decline.
+ */
+async function addRoomToEvent(params: Record<string, unknown>) {
+  const { eventId, roomEmail, waitSeconds } = addRoomToEventSchema.parse(params);
+  
+  try {
+    const eventPath = `/me/events/${sanitizePathSegment(eventId, 'eventId')}`;
+    const address = sanitizeEmailAddress(roomEmail, 'roomEmail');
+    const isRoom = (a: EventAttendee) => a.emailAddress?.address?.toLowerCase() === address.toLowerCase();
+    
+    // The room name is cosmetic, so a failed lookup (e.g. no Place.Read.All) is not fatal
+    const room = await getRoom(address).catch(() => undefined);
+    const roomName = room?.displayName ?? address;
+    
+    const eventResponse = await graphRequest<{
+      attendees?: EventAttendee[];
+      locations?: Array<{ locationEmailAddress?: string }>;
+      isOrganizer?: boolean;
+    }>(`${eventPath}?$select=attendees,locations,isOrganizer`);
+    if (!eventResponse.ok) {
+      return handleGraphResponse(eventResponse);
+    }
+    if (!eventResponse.data.isOrganizer) {
+      return formatErrorResponse(new Error('Only the organizer can book a room for this meeting'));
+    }
+    
+    const attendees = eventResponse.data.attendees ?? [];
+    const roomLocation = { displayName: roomName, locationEmailAddress: address, locationType: 'conferenceRoom' };
+    const otherLocations = (eventResponse.data.locations ?? [])
+      .filter(l => l.locationEmailAddress?.toLowerCase() !== address.toLowerCase());
+    
+    const updated = await graphRequest(eventPath, {
+      method: 'PATCH',
+      body: {
+        attendees: attendees.some(isRoom)
+          ? attendees
+          : [...attendees, { emailAddress: { address, name: roomName }, type: 'resource' }],
+        location: roomLocation,
+        locations: [roomLocation, ...otherLocations],
+      },
+    });
+    if (!updated.ok) {
+      return handleGraphResponse(updated);
+    }
+    
+    // Room mailboxes usually answer within seconds
+    const deadline = Date.now() + waitSeconds * 1000;
+    let response = 'none';
+    for (;;) {
+      const check = await graphRequest<{ attendees?: EventAttendee[] }>(`${eventPath}?$select=attendees`);
+      response = check.data?.attendees?.find(isRoom)?.status?.response ?? 'none';
+      if ((response !== 'none' && response !== 'notResponded') || Date.now() + ROOM_RESPONSE_POLL_MS > deadline) {
+        break;
+      }
+      await new Promise(resolve => setTimeout(resolve, ROOM_RESPONSE_POLL_MS));
+    }
+    
+    const bookingStatus = response === 'accepted' || response === 'declined' || response === 'tentativelyAccepted'
+      ? response
+      : 'pending';
+    const messages: Record<string, string> = {
+      accepted: 'Room booked',
+      tentativelyAccepted: 'Room tentatively accepted; the booking may still need approval',
+      declined: 'Room declined the booking (already booked or restricted). Pick another room, e.g. with find-meeting-times.',
+      pending: 'Room has not responded yet. Check again later with get-calendar-event.',
+    };
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse({
+          eventId,
+          room: { name: roomName, email: address },
+          bookingStatus,
+          message: messages[bookingStatus],
+        }),
+      }],
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Cancel a meeting as organizer, sending a cancellation notice to attendees
+ */
+async function cancelCalendarEvent(params: Record<string, unknown>) {
+  const { eventId, comment, applyTo } = cancelCalendarEventSchema.parse(params);
+  
+  try {
+    const targetId = applyTo === 'series'
+      ? sanitizePathSegment(await getSeriesMasterId(eventId), 'seriesMasterId')
+      : sanitizePathSegment(eventId, 'eventId');
+    
+    const eventResponse = await graphRequest<{ subject?: string; isOrganizer?: boolean; isCancelled?: boolean }>(
+      `/me/events/${targetId}?$select=subject,isOrganizer,isCancelled`
+    );
+    if (!eventResponse.ok) {
+      return handleGraphResponse(eventResponse);
+    }
+    if (!eventResponse.data.isOrganizer) {
+      return formatErrorResponse(new Error(
+        'Only the organizer can cancel a meeting. Use respond-to-event with response="decline" to decline it instead.'
+      ));
+    }
+    if (eventResponse.data.isCancelled) {
+      return formatErrorResponse(new Error('This meeting is already cancelled'));
+    }
+    
+    const response = await graphRequest(`/me/events/${targetId}/cancel`, {
+      method: 'POST',
+      body: comment ? { comment } : {},
+    });
+    
+    if (response.status === 202 || response.ok) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: serializeResponse({ 
+            success: true, 
+            message: `${applyTo === 'series' ? 'Series' : 'Meeting'} "${eventResponse.data.subject ?? ''}" cancelled and attendees notified`,
+          }),
+        }],
+      };
+    }
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Respond to a meeting invitation (accept, tentatively accept, decline)
+ * Optionally proposes a new time and can target the whole recurring series.
+ */
+async function respondToEvent(params: Record<string, unknown>) {
+  const { 
+    eventId, response: responseType, comment, sendResponse, applyTo, 
+    proposedStart, proposedEnd, timeZone 
+  } = respondToEventSchema.parse(params);
+  
+  try {
+    if ((proposedStart || proposedEnd) && responseType === 'accept') {
+      return formatErrorResponse(new Error('A new time can only be proposed with tentativelyAccept or decline'));
+    }
+    if ((proposedStart || proposedEnd) && !(proposedStart && proposedEnd)) {
+      return formatErrorResponse(new Error('Proposing a new time requires both proposedStart and proposedEnd'));
+    }
+    if (proposedStart && !sendResponse) {
+      return formatErrorResponse(new Error('Proposing a new time requires sendResponse=true'));
+    }
+    
+    let targetId = sanitizePathSegment(eventId, 'eventId');
+    
+    // Responding on the series master answers every occurrence
+    if (applyTo === 'series') {
+      const eventResponse = await graphRequest<{ type?: string; seriesMasterId?: string }>(
+        `/me/events/${targetId}?$select=type,seriesMasterId`
+      );
+      if (!eventResponse.ok) {
+        return handleGraphResponse(eventResponse);
+      }
+      if (eventResponse.data.seriesMasterId) {
+        targetId = sanitizePathSegment(eventResponse.data.seriesMasterId, 'seriesMasterId');
+      } else if (eventResponse.data.type !== 'seriesMaster') {
+        return formatErrorResponse(new Error('applyTo=series was requested, but this event is not part of a recurring series'));
+      }
+    }
+    
+    const body: Record<string, unknown> = { sendResponse };
+    if (comment) body.comment = comment;
+    if (proposedStart && proposedEnd) {
+      const proposalTimeZone = timeZone || await getDefaultTimeZone();
+      body.proposedNewTime = {
+        start: { dateTime: proposedStart, timeZone: proposalTimeZone },
+        end: { dateTime: proposedEnd, timeZone: proposalTimeZone },
+      };
+    }
+    
+    const response = await graphRequest(`/me/events/${targetId}/${responseType}`, {
+      method: 'POST',
+      body,
+    });
+    
+    if (!(response.status === 202 || response.ok)) {
+      return handleGraphResponse(response);
+    }
+    
+    // Return the updated response status
+    const updated = await graphRequest<Record<string, unknown>>(
+      `/me/events/${targetId}?$select=id,subject,start,end,type,responseStatus`
+    );
+    if (updated.ok && updated.data) {
+      updated.data = enrichEventWithDayInfo(updated.data);
+    }
+    
+    return handleGraphResponse(updated);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/** Event fields needed to render iCalendar output */
+const ICS_EVENT_FIELDS = [
+  'id', 'iCalUId', 'subject', 'body', 'start', 'end', 'isAllDay', 'location', 'organizer', 'attendees',
+  'recurrence', 'type', 'showAs', 'sensitivity', 'importance', 'isCancelled', 'categories',
+  'onlineMeeting', 'lastModifiedDateTime',
+].join(',');
+
+/**
+ * Export an event as iCalendar (RFC 5545) text
+ * Occurrences are exported as standalone events; series masters carry their RRULE.
+ */
+async function exportEventIcs(params: Record<string, unknown>) {
+  const { eventId, timeZone, method, asAttachment } = exportEventIcsSchema.parse(params);
+  
+  try {
+    let exportTimeZone: string;
+    if (timeZone) {
+      exportTimeZone = sanitizeTimezone(timeZone);
+      if (!isKnownTimeZone(exportTimeZone)) {
+        return formatErrorResponse(new Error(`Unknown timeZone "${timeZone}". Use an IANA name such as "Europe/Berlin".`));
+      }
+    } else {
+      // Windows time zone names have no IANA definition to export, so fall back to UTC
+      const mailboxTimeZone = await getDefaultTimeZone();
+      exportTimeZone = isKnownTimeZone(mailboxTimeZone) ? mailboxTimeZone : 'UTC';
+    }
+    
+    const response = await graphRequest<GraphEvent>(
+      `/me/events/${sanitizePathSegment(eventId, 'eventId')}?$select=${ICS_EVENT_FIELDS}`,
+      { headers: preferTimeZone(exportTimeZone) }
+    );
+    if (!response.ok) {
+      return handleGraphResponse(response);
     }
     
-    const response = await graphRequest(`/me/events/${sanitizePathSegment(eventId, 'eventId')}`, {
-      method: 'PATCH',
-      body: updates,
-    });
+    const ics = serializeIcs({ method, events: [graphEventToIcs(response.data, exportTimeZone)] });
     
-    return handleGraphResponse(response);
+    if (!asAttachment) {
+      return { content: [{ type: 'text' as const, text: ics }] };
+    }
+    
+    const baseName = (response.data.subject || '').replace(/[^\w .-]+/g, '').trim().slice(0, 60) || 'event';
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse({
+          name: `${baseName}.ics`,
+          contentType: 'text/calendar',
+          contentBytes: Buffer.from(ics, 'utf8').toString('base64'),
+        }),
+      }],
+    };
   } catch (error) {
     return formatErrorResponse(error);
   }
 }
 
 /**
- * Delete a calendar event
+ * Import events from an iCalendar payload or .ics mail attachment
+ * Events already in the calendar (same UID) are skipped. For recurring
+ * events, EXDATEs and modified occurrences are applied after the series is created.
  */
-async function deleteCalendarEvent(params: Record<string, unknown>) {
-  const { eventId } = deleteCalendarEventSchema.parse(params);
+async function importIcs(params: Record<string, unknown>) {
+  const { ics, messageId, attachmentId, calendarId, includeAttendees, timeZone } = importIcsSchema.parse(params);
+  
+  if (!ics && !(messageId && attachmentId)) {
+    return formatErrorResponse(new Error('Provide either ics or messageId with attachmentId'));
+  }
   
   try {
-    const response = await graphRequest(`/me/events/${sanitizePathSegment(eventId, 'eventId')}`, {
-      method: 'DELETE',
-    });
+    let text = ics;
+    if (!text) {
+      const attachmentResponse = await readAttachment(
+        `/me/messages/${sanitizePathSegment(messageId!, 'messageId')}`,
+        attachmentId!,
+        { format: 'text' }
+      );
+      if (!attachmentResponse.ok) {
+        return handleGraphResponse(attachmentResponse);
+      }
+      const attachment = attachmentResponse.data as { content?: string; _warning?: string };
+      if (typeof attachment.content !== 'string') {
+        return formatErrorResponse(new Error(attachment._warning || 'The attachment has no readable content'));
+      }
+      text = attachment.content;
+    }
     
-    if (response.status === 204 || response.ok) {
-      return {
-        content: [{
-          type: 'text' as const,
-          text: serializeResponse({ success: true, message: 'Event deleted' }),
-        }],
-      };
+    const calendar = parseIcs(text);
+    const series = calendar.events.filter(e => !e.recurrenceId);
+    const occurrenceChanges = calendar.events.filter(e => e.recurrenceId);
+    if (series.length > MAX_IMPORT_EVENTS) {
+      return formatErrorResponse(new Error(
+        `The file contains ${series.length} events; at most ${MAX_IMPORT_EVENTS} can be imported at once.`
+      ));
     }
     
-    return handleGraphResponse(response);
+    const defaultTimeZone = timeZone || await getDefaultTimeZone();
+    const eventsPath = calendarId
+      ? `/me/calendars/${sanitizePathSegment(calendarId, 'calendarId')}/events`
+      : '/me/events';
+    
+    const imported: Array<Record<string, unknown>> = [];
+    const skipped: Array<Record<string, unknown>> = [];
+    const failed: Array<Record<string, unknown>> = [];
+    
+    for (const event of series) {
+      const label = { uid: event.uid, subject: event.summary };
+      
+      if (calendar.method === 'CANCEL' || event.status === 'CANCELLED') {
+        skipped.push({ ...label, reason: 'cancelled' });
+        continue;
+      }
+      
+      try {
+        const existingId = await findEventByUid(eventsPath, event.uid);
+        if (existingId) {
+          skipped.push({ ...label, reason: 'already in calendar', eventId: existingId });
+          continue;
+        }
+        
+        const payload = icsEventToGraph(event, defaultTimeZone, includeAttendees);
+        payload.singleValueExtendedProperties = [{ id: ICS_UID_PROPERTY_ID, value: event.uid }];
+        
+        const response = await graphRequest<{ id: string }>(eventsPath, { method: 'POST', body: payload });
+        if (!response.ok) {
+          throw new Error(getGraphErrorMessage(response, `Failed to create event: ${response.status}`));
+        }
+        
+        const entry: Record<string, unknown> = { ...label, eventId: response.data.id, start: event.start.dateTime };
+        
+        if (event.rrule) {
+          const seriesTimeZone = (payload.start as { timeZone: string }).timeZone;
+          const changes = occurrenceChanges.filter(o => o.uid === event.uid);
+          const removedDates = [
+            ...event.exdates,
+            ...changes.filter(o => o.status === 'CANCELLED').map(o => o.recurrenceId!),
+          ].map(d => toLocalDate(d, seriesTimeZone));
+          const overrides = new Map(changes
+            .filter(o => o.status !== 'CANCELLED')
+            .map(o => [toLocalDate(o.recurrenceId!, seriesTimeZone), icsEventToGraph(o, defaultTimeZone, includeAttendees)]));
+          
+          const result = await applyOccurrenceChanges(response.data.id, seriesTimeZone, removedDates, overrides);
+          entry.removedOccurrences = result.removed;
+          entry.updatedOccurrences = result.updated;
+          if (result.unmatched.length > 0) {
+            entry.unmatchedOccurrenceDates = result.unmatched;
+          }
+        }
+        
+        imported.push(entry);
+      } catch (error) {
+        failed.push({ ...label, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    
+    // Updates to single occurrences only apply to a series created by this import
+    for (const change of occurrenceChanges) {
+      if (!series.some(e => e.uid === change.uid)) {
+        skipped.push({
+          uid: change.uid,
+          subject: change.summary,
+          reason: 'changes one occurrence of a series that is not in this file',
+        });
+      }
+    }
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse({ imported, skipped, failed }),
+      }],
+    };
   } catch (error) {
     return formatErrorResponse(error);
   }
@@ -1011,18 +3399,296 @@ async function deleteCalendarEvent(params: Record<string, unknown>) {
 // Tool Definitions for MCP
 // ============================================================================
 
+const recurrenceProperty = {
+  type: 'object',
+  properties: {
+    frequency: { type: 'string', enum: ['daily', 'weekly', 'monthly', 'yearly'], description: 'How often the event repeats' },
+    interval: { type: 'number', description: 'Repeat every N days/weeks/months/years (default: 1)' },
+    daysOfWeek: { 
+      type: 'array', 
+      items: { type: 'string', enum: ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] },
+      description: 'Days for weekly recurrence, or the weekday for weekOfMonth patterns (default: weekday of start)',
+    },
+    dayOfMonth: { type: 'number', description: 'Day of the month for monthly/yearly recurrence (default: day of start)' },
+    weekOfMonth: { type: 'string', enum: ['first', 'second', 'third', 'fourth', 'last'], description: 'For "first Monday"-style monthly/yearly recurrence; combine with daysOfWeek' },
+    month: { type: 'number', description: 'Month (1-12) for yearly recurrence (default: month of start)' },
+    endDate: { type: 'string', description: 'Last date of the series (YYYY-MM-DD). Omit endDate and occurrences for no end.' },
+    occurrences: { type: 'number', description: 'Number of occurrences (instead of endDate)' },
+  },
+  required: ['frequency'],
+  description: 'Make the event recurring. Example: {"frequency": "weekly", "daysOfWeek": ["tuesday"], "endDate": "2026-03-31"}',
+};
+
+const roomFilterProperties = {
+  roomList: {
+    type: 'string',
+    description: 'Room list (usually a building) by name or email. Use list-rooms to see rooms and their lists.',
+  },
+  building: {
+    type: 'string',
+    description: 'Building name (partial match)',
+  },
+  city: {
+    type: 'string',
+    description: 'City (partial match)',
+  },
+  floor: {
+    type: 'string',
+    description: 'Floor label or number, e.g. "4"',
+  },
+  minCapacity: {
+    type: 'number',
+    description: 'Minimum number of seats',
+  },
+  wheelchairAccessible: {
+    type: 'boolean',
+    description: 'Only wheelchair-accessible rooms',
+  },
+  hasAudio: {
+    type: 'boolean',
+    description: 'Only rooms with an audio device',
+  },
+  hasVideo: {
+    type: 'boolean',
+    description: 'Only rooms with a video conferencing device',
+  },
+  hasDisplay: {
+    type: 'boolean',
+    description: 'Only rooms with a display/screen',
+  },
+};
+
+const mailboxProperty = {
+  mailbox: {
+    type: 'string',
+    description: "Email/UPN of another user whose calendar to use, e.g. the manager of an assistant (requires shared or delegate access). Default: the user's own calendar",
+  },
+};
+
+const calendarColorProperty = {
+  color: {
+    type: 'string',
+    enum: ['auto', 'lightBlue', 'lightGreen', 'lightOrange', 'lightGray', 'lightYellow', 'lightTeal', 'lightPink', 'lightBrown', 'lightRed'],
+    description: 'Calendar color (default: auto)',
+  },
+};
+
+const attachmentsProperty = {
+  attachments: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'File name including extension (e.g., "agenda.pdf")' },
+        contentType: { type: 'string', description: 'MIME type (e.g., "application/pdf"). Default: application/octet-stream' },
+        contentBytes: { type: 'string', description: 'File content, base64-encoded' },
+      },
+      required: ['name', 'contentBytes'],
+    },
+    description: 'Files to attach, e.g. an agenda or slides. Use format: [{"name": "agenda.pdf", "contentType": "application/pdf", "contentBytes": "<base64>"}]. Files over 3 MB are uploaded in chunks automatically.',
+  },
+};
+
+const conflictProperties = {
+  allowConflicts: {
+    type: 'boolean',
+    description: 'Save even if the time overlaps existing events (default: false). Only set after the user confirms.',
+  },
+  checkAttendees: {
+    type: 'boolean',
+    description: "Also check the attendees' free/busy for conflicts (default: false)",
+  },
+};
+
 export const calendarToolDefinitions = [
   {
     name: 'list-calendars',
-    description: 'List all calendars for the authenticated user. Returns calendar IDs that can be used with other calendar tools.',
+    description: 'List all calendars for the authenticated user, or for another user via mailbox (delegates and shared calendars). Returns calendar IDs that can be used with other calendar tools; pass the same mailbox along with them.',
     readOnly: true,
-    requiredScopes: ['Calendars.Read'],
+    requiredScopes: ['Calendars.Read', 'Calendars.Read.Shared'],
     inputSchema: {
       type: 'object' as const,
-      properties: {},
+      properties: {
+        ...mailboxProperty,
+      },
     },
     handler: listCalendars,
   },
+  {
+    name: 'list-calendar-groups',
+    description: `List calendar groups ("My Calendars", "Other Calendars", custom groups). Set includeCalendars to also list the calendars in each group.
+
+Returns group IDs for create-calendar.`,
+    readOnly: true,
+    requiredScopes: ['Calendars.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        includeCalendars: {
+          type: 'boolean',
+          description: 'Include the calendars of each group (default: false)',
+        },
+      },
+    },
+    handler: listCalendarGroups,
+  },
+  {
+    name: 'create-calendar',
+    description: `Create a secondary calendar, e.g. for a project or an on-call rotation.
+
+Returns the new calendar's ID; pass it as calendarId to create-calendar-event, list-calendar-events and the other calendar tools to work in this calendar.
+Check list-calendars first to avoid creating a duplicate.
+
+Example: { "name": "On-call rotation", "color": "lightRed" }`,
+    readOnly: false,
+    requiredScopes: ['Calendars.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Name of the calendar',
+        },
+        ...calendarColorProperty,
+        calendarGroupId: {
+          type: 'string',
+          description: 'Calendar group to create it in (default: "My Calendars"). Use list-calendar-groups to get IDs.',
+        },
+      },
+      required: ['name'],
+    },
+    handler: createCalendar,
+  },
+  {
+    name: 'update-calendar',
+    description: 'Rename a calendar or change its color. Use list-calendars to get IDs.',
+    readOnly: false,
+    requiredScopes: ['Calendars.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        calendarId: {
+          type: 'string',
+          description: 'The ID of the calendar to update',
+        },
+        name: {
+          type: 'string',
+          description: 'New name of the calendar',
+        },
+        ...calendarColorProperty,
+      },
+      required: ['calendarId'],
+    },
+    handler: updateCalendar,
+  },
+  {
+    name: 'delete-calendar',
+    description: `Delete a secondary calendar together with ALL its events. Attendees of its meetings are not notified.
+
+The primary calendar cannot be deleted. Only call after the user has confirmed which calendar to delete.`,
+    readOnly: false,
+    requiredScopes: ['Calendars.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        calendarId: {
+          type: 'string',
+          description: 'The ID of the calendar to delete. Use list-calendars to get IDs.',
+        },
+      },
+      required: ['calendarId'],
+    },
+    handler: deleteCalendar,
+  },
+  {
+    name: 'list-calendar-permissions',
+    description: `List who a calendar is shared with and their roles.
+
+Besides one entry per person, the list contains "My Organization" (the default access of everyone in the organization) and the owner; these cannot be removed.
+Returns permission IDs for revoke-calendar-permission.`,
+    readOnly: false,
+    requiredScopes: ['Calendars.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        calendarId: {
+          type: 'string',
+          description: 'Calendar ID (default: primary calendar). Use list-calendars to get IDs.',
+        },
+      },
+    },
+    handler: listCalendarPermissions,
+  },
+  {
+    name: 'share-calendar',
+    description: `Share one of the user's calendars with a person, or change the role of someone it is already shared with.
+
+Roles:
+- freeBusyRead: only sees when the user is busy
+- limitedRead: free/busy plus subject and location
+- read: sees all details of non-private events
+- write: can view and edit events
+- delegate: can edit events and receives meeting requests and responses on the user's behalf (primary calendar only, people inside the organization only). Set includePrivateEvents to also give access to private events.
+
+EMAIL ADDRESS REQUIRED: If you only have a name, use lookup-contact-email first.
+Only give write or delegate access after the user has confirmed it.`,
+    readOnly: false,
+    requiredScopes: ['Calendars.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        email: {
+          type: 'string',
+          description: 'Email address of the person to share with',
+        },
+        name: {
+          type: 'string',
+          description: 'Display name of the person (default: the email address)',
+        },
+        role: {
+          type: 'string',
+          enum: ['freeBusyRead', 'limitedRead', 'read', 'write', 'delegate'],
+          description: 'Access to give',
+        },
+        includePrivateEvents: {
+          type: 'boolean',
+          description: 'For role "delegate": also allow access to private events (default: false)',
+        },
+        calendarId: {
+          type: 'string',
+          description: 'Calendar ID (default: primary calendar). Use list-calendars to get IDs.',
+        },
+      },
+      required: ['email', 'role'],
+    },
+    handler: shareCalendar,
+  },
+  {
+    name: 'revoke-calendar-permission',
+    description: `Stop sharing a calendar with a person.
+
+Pass the person's email, or a permission ID from list-calendar-permissions. "My Organization" and the owner's entry cannot be removed.`,
+    readOnly: false,
+    requiredScopes: ['Calendars.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        email: {
+          type: 'string',
+          description: 'Email address of the person whose access to remove',
+        },
+        permissionId: {
+          type: 'string',
+          description: 'Permission ID from list-calendar-permissions (instead of email)',
+        },
+        calendarId: {
+          type: 'string',
+          description: 'Calendar ID (default: primary calendar). Use list-calendars to get IDs.',
+        },
+      },
+    },
+    handler: revokeCalendarPermission,
+  },
   {
     name: 'list-calendar-events',
     description: `List calendar events with simple date range filtering. Uses calendarView for proper recurring event expansion.
@@ -1032,12 +3698,14 @@ For filtering by organizer/attendees/content, use search-calendar-events instead
 
 Examples:
 - Events this week: { "startAfter": "2026-01-20T00:00:00Z", "startBefore": "2026-01-27T00:00:00Z" }
-- Next 20 events: { "top": 20 }`,
+- Next 20 events: { "top": 20 }
+- Manager's events this week: { "mailbox": "boss@company.com", "startAfter": "2026-01-20T00:00:00Z", "startBefore": "2026-01-27T00:00:00Z" }`,
     readOnly: true,
-    requiredScopes: ['Calendars.Read'],
+    requiredScopes: ['Calendars.Read', 'Calendars.Read.Shared'],
     inputSchema: {
       type: 'object' as const,
       properties: {
+        ...mailboxProperty,
         calendarId: {
           type: 'string',
           description: 'Calendar ID (default: primary calendar). Use list-calendars to get IDs.',
@@ -1131,13 +3799,38 @@ Examples:
     },
     handler: searchCalendarEvents,
   },
+  {
+    name: 'list-rooms',
+    description: `List meeting rooms with their location, capacity and equipment.
+
+Filter by room list (usually one per building), building, city, floor, minimum capacity, wheelchair access and audio/video/display equipment. Filters by room list, building or city only load the matching room lists, which is much faster in large organizations.
+
+Returns the total number of matches and up to "top" rooms. Use a room's email with find-meeting-times or get-free-busy.
+
+Examples:
+- Rooms in a building: { "building": "HQ" }
+- 10+ seats with video in Berlin: { "city": "Berlin", "minCapacity": 10, "hasVideo": true }`,
+    readOnly: true,
+    requiredScopes: ['Place.Read.All'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        ...roomFilterProperties,
+        top: {
+          type: 'number',
+          description: 'Maximum number of rooms to return (1-200, default: 50)',
+        },
+      },
+    },
+    handler: listRooms,
+  },
   {
     name: 'find-meeting-times',
     description: `Find available meeting times when attendees are free. Checks everyone's free/busy status and returns ranked suggestions.
 
 AUTOMATIC ROOM LOOKUP (when isOnlineMeeting=false):
-- System automatically fetches all available rooms
-- Includes rooms as resource attendees in availability check
+- System automatically fetches rooms (up to ${MAX_MEETING_ROOMS}) and includes them as resource attendees
+- Narrow the rooms with the same filters as list-rooms: roomList, building, city, floor, minCapacity, wheelchairAccessible, hasAudio, hasVideo, hasDisplay
 - Results show which rooms are free for each time slot
 - No need to manually specify rooms!
 
@@ -1153,7 +3846,7 @@ ORGANIZER AVAILABILITY (critical):
 - Only set isOrganizerOptional=true if user explicitly confirms
 
 Parameters:
-- meetingHoursStart/End: Limit to specific hours (e.g., "09:00:00" to "17:00:00")
+- meetingHoursStart/End: Limit to specific hours (e.g., "09:00:00" to "17:00:00"). Default: your working hours and working days from Outlook
 - isOnlineMeeting: true (default, Teams meeting), false (in-person with automatic room lookup)
 - Returns: confidence score, attendee availability, suggestion reasons
 
@@ -1161,10 +3854,13 @@ Examples:
 - 1-hour, 9-11am: {"attendees": [{"email": "alice@company.com", "type": "required"}], "durationMinutes": 60, "searchWindowStart": "2026-01-20T00:00:00", "searchWindowEnd": "2026-02-03T23:59:59", "meetingHoursStart": "09:00:00", "meetingHoursEnd": "11:00:00"}
 - 30-min Teams: {"attendees": [{"email": "alice@company.com"}, {"email": "bob@company.com"}], "durationMinutes": 30, "searchWindowStart": "2026-01-20T00:00:00", "searchWindowEnd": "2026-01-24T23:59:59", "isOnlineMeeting": true}
 - In-person: {"attendees": [{"email": "alice@company.com"}], "durationMinutes": 60, "searchWindowStart": "2026-01-20T00:00:00", "searchWindowEnd": "2026-01-24T23:59:59", "isOnlineMeeting": false}
+- In-person, 8+ seats with video in Munich: {"attendees": [{"email": "alice@company.com"}], "durationMinutes": 60, "searchWindowStart": "2026-01-20T00:00:00", "searchWindowEnd": "2026-01-24T23:59:59", "isOnlineMeeting": false, "city": "Munich", "minCapacity": 8, "hasVideo": true}
+
+Room lookup needs the Place.Read.All permission (requested when list-rooms is enabled). Without it, in-person searches skip rooms; room filters return an error.
 
 After finding times, use create-calendar-event to book.`,
     readOnly: true,
-    requiredScopes: ['Calendars.Read.Shared'],
+    requiredScopes: ['Calendars.Read.Shared', 'MailboxSettings.Read'],
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -1192,34 +3888,85 @@ After finding times, use create-calendar-event to book.`,
           type: 'string',
           description: 'End of search window (ISO 8601). Example: "2026-02-03T23:59:59"',
         },
-        meetingHoursStart: {
+        meetingHoursStart: {
+          type: 'string',
+          description: 'Earliest time of day for meetings (HH:MM:SS). Example: "09:00:00" for 9 AM. Default: start of your working hours',
+        },
+        meetingHoursEnd: {
+          type: 'string',
+          description: 'Latest time of day for meetings (HH:MM:SS). Example: "17:00:00" for 5 PM. Default: end of your working hours',
+        },
+        isOnlineMeeting: {
+          type: 'boolean',
+          description: 'Suggest as Teams/online meeting (default: false)',
+        },
+        isOrganizerOptional: {
+          type: 'boolean',
+          description: 'If true, suggestions can be returned even when you are busy. IMPORTANT: Only set to true after asking the user if they want to see times despite their conflicts. Never set this silently. Default: false',
+        },
+        maxSuggestions: {
+          type: 'number',
+          description: 'Maximum number of time slot suggestions to return (default: 5, max: 10)',
+        },
+        timeZone: {
+          type: 'string',
+          description: 'Time zone for the constraints (default: your mailbox time zone). Example: "Europe/Berlin", "America/New_York", "UTC"',
+        },
+        ...roomFilterProperties,
+      },
+      required: ['attendees', 'searchWindowStart', 'searchWindowEnd'],
+    },
+    handler: findMeetingTimes,
+  },
+  {
+    name: 'get-free-busy',
+    description: `Get free/busy information for up to 20 people or rooms in a time window.
+
+Returns per email: merged busy blocks (start, end, status: busy/tentative/oof/workingElsewhere, day) and working hours. Free time is not listed. Times are in the requested time zone (default: your mailbox time zone).
+
+Use this to reason about calendars yourself; use find-meeting-times for ranked suggestions.
+
+EMAIL ADDRESSES REQUIRED:
+- If you only have names: First use lookup-contact-email to find emails
+- Room emails come from find-meeting-times room results
+
+Set includeAvailabilityView=true to also get Graph's availability string (one digit per interval: 0 free, 1 tentative, 2 busy, 3 oof, 4 working elsewhere).
+
+Example: { "emails": ["alice@company.com", "room-4.01@company.com"], "startDateTime": "2026-01-20T08:00:00", "endDateTime": "2026-01-20T18:00:00" }`,
+    readOnly: true,
+    requiredScopes: ['Calendars.Read', 'MailboxSettings.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        emails: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Email addresses of people or rooms (max 20)',
+        },
+        startDateTime: {
           type: 'string',
-          description: 'Earliest time of day for meetings (HH:MM:SS). Example: "09:00:00" for 9 AM',
+          description: 'Start of the window (ISO 8601, without offset). Example: "2026-01-20T08:00:00"',
         },
-        meetingHoursEnd: {
+        endDateTime: {
           type: 'string',
-          description: 'Latest time of day for meetings (HH:MM:SS). Example: "17:00:00" for 5 PM',
-        },
-        isOnlineMeeting: {
-          type: 'boolean',
-          description: 'Suggest as Teams/online meeting (default: false)',
-        },
-        isOrganizerOptional: {
-          type: 'boolean',
-          description: 'If true, suggestions can be returned even when you are busy. IMPORTANT: Only set to true after asking the user if they want to see times despite their conflicts. Never set this silently. Default: false',
+          description: 'End of the window (ISO 8601, without offset). Example: "2026-01-20T18:00:00"',
         },
-        maxSuggestions: {
+        intervalMinutes: {
           type: 'number',
-          description: 'Maximum number of time slot suggestions to return (default: 5, max: 10)',
+          description: 'Slot length of the availability view in minutes (5-1440, default: 30)',
         },
         timeZone: {
           type: 'string',
-          description: 'Time zone for the constraints. Example: "Europe/Berlin", "America/New_York", "UTC"',
+          description: 'Time zone of the window and results (default: your mailbox time zone)',
+        },
+        includeAvailabilityView: {
+          type: 'boolean',
+          description: 'Include the per-interval availability string (default: false)',
         },
       },
-      required: ['attendees', 'searchWindowStart', 'searchWindowEnd'],
+      required: ['emails', 'startDateTime', 'endDateTime'],
     },
-    handler: findMeetingTimes,
+    handler: getFreeBusy,
   },
   {
     name: 'get-calendar-event',
@@ -1239,13 +3986,109 @@ After finding times, use create-calendar-event to book.`,
     handler: getCalendarEvent,
   },
   {
-    name: 'get-calendar-view',
-    description: 'Get calendar events within a specific time range',
+    name: 'list-event-attachments',
+    description: `List the attachments of a calendar event, e.g. the agenda or slides attached to an invitation. Returns metadata only: id, name, kind, contentType, size, isInline.
+
+Kinds:
+- file: a regular file (use get-event-attachment to read its content)
+- item: an attached email or calendar event (get-event-attachment expands it)
+- reference: a link to a file in OneDrive/SharePoint`,
+    readOnly: true,
+    requiredScopes: ['Calendars.Read', 'Calendars.Read.Shared'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        ...mailboxProperty,
+        eventId: {
+          type: 'string',
+          description: 'The ID of the event',
+        },
+      },
+      required: ['eventId'],
+    },
+    handler: listEventAttachments,
+  },
+  {
+    name: 'get-event-attachment',
+    description: `Read a single calendar event attachment. Use list-event-attachments first to get attachment IDs.
+
+Returns:
+- File attachments: content as plain text for text types (txt, CSV, HTML, JSON, XML, ICS), base64 for binaries (PDF, images, Office files). The "encoding" field says which.
+- Item attachments (attached emails/events): the expanded item
+- Reference attachments: the sourceUrl of the linked file
+
+Files larger than the server's read limit return metadata only with a _warning.`,
+    readOnly: true,
+    requiredScopes: ['Calendars.Read', 'Calendars.Read.Shared'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        ...mailboxProperty,
+        eventId: {
+          type: 'string',
+          description: 'The ID of the event',
+        },
+        attachmentId: {
+          type: 'string',
+          description: 'The ID of the attachment (from list-event-attachments)',
+        },
+        format: {
+          type: 'string',
+          enum: ['auto', 'text', 'base64'],
+          description: 'Content format for file attachments. "auto" (default) returns text for text-like types and base64 otherwise. "text" forces UTF-8 decoding, "base64" forces raw bytes.',
+        },
+      },
+      required: ['eventId', 'attachmentId'],
+    },
+    handler: getEventAttachment,
+  },
+  {
+    name: 'export-event-ics',
+    description: `Render a calendar event as iCalendar (.ics, RFC 5545) text, e.g. to share it with people outside the organization or import it into another calendar system.
+
+Includes time zone definitions, attendees with their responses, and the recurrence rule of a series. Pass a series master ID (or an occurrence's seriesMasterId) to export the whole series; an occurrence ID exports just that occurrence. Modified or cancelled occurrences of a series are not included.
+
+Times are written in timeZone (IANA name), defaulting to the mailbox time zone or UTC if it has no IANA equivalent.
+
+method="PUBLISH" (default) is for sharing a copy; method="REQUEST" marks the file as a meeting invitation.
+
+Set asAttachment=true to get { name, contentType, contentBytes } that can be passed directly in the attachments of send-mail or create-draft-mail.`,
     readOnly: true,
     requiredScopes: ['Calendars.Read'],
     inputSchema: {
       type: 'object' as const,
       properties: {
+        eventId: {
+          type: 'string',
+          description: 'The ID of the event, occurrence or series master',
+        },
+        timeZone: {
+          type: 'string',
+          description: 'IANA time zone for the exported times (e.g. "Europe/Berlin")',
+        },
+        method: {
+          type: 'string',
+          enum: ['PUBLISH', 'REQUEST'],
+          description: 'iCalendar METHOD (default: PUBLISH)',
+        },
+        asAttachment: {
+          type: 'boolean',
+          description: 'Return base64 attachment data instead of the raw text (default: false)',
+        },
+      },
+      required: ['eventId'],
+    },
+    handler: exportEventIcs,
+  },
+  {
+    name: 'get-calendar-view',
+    description: "Get calendar events within a specific time range. Pass mailbox to view another user's calendar (shared or delegated).",
+    readOnly: true,
+    requiredScopes: ['Calendars.Read', 'Calendars.Read.Shared'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        ...mailboxProperty,
         startDateTime: {
           type: 'string',
           description: 'Start of time range (ISO 8601 format)',
@@ -1267,6 +4110,45 @@ After finding times, use create-calendar-event to book.`,
     },
     handler: getCalendarView,
   },
+  {
+    name: 'list-event-instances',
+    description: `List the occurrences of a recurring series within a date window.
+
+Each occurrence has a type: "occurrence" (as scheduled) or "exception" (moved or otherwise changed). originalStart is when it was scheduled before being moved. isCancelled marks occurrences the organizer cancelled. Occurrences deleted from the series are not returned; their scheduled dates within the window are listed in removedOccurrences.
+
+Accepts the series master ID or the ID of any occurrence. Use the returned IDs with update-calendar-event, delete-calendar-event or respond-to-event.
+
+Example: { "eventId": "<id>", "startDateTime": "2026-01-01T00:00:00Z", "endDateTime": "2026-03-31T23:59:59Z" }`,
+    readOnly: true,
+    requiredScopes: ['Calendars.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        eventId: {
+          type: 'string',
+          description: 'Series master ID or ID of any occurrence in the series',
+        },
+        startDateTime: {
+          type: 'string',
+          description: 'Start of the window (ISO 8601). Example: "2026-01-01T00:00:00Z"',
+        },
+        endDateTime: {
+          type: 'string',
+          description: 'End of the window (ISO 8601). Example: "2026-03-31T23:59:59Z"',
+        },
+        top: {
+          type: 'number',
+          description: 'Maximum number of occurrences to return (1-50, default: 25)',
+        },
+        skip: {
+          type: 'number',
+          description: 'Number of occurrences to skip for pagination',
+        },
+      },
+      required: ['eventId', 'startDateTime', 'endDateTime'],
+    },
+    handler: listEventInstances,
+  },
   {
     name: 'create-calendar-event',
     description: `Create a new calendar event.
@@ -1277,12 +4159,32 @@ TEAMS MEETINGS:
 
 IN-PERSON MEETINGS:
 - Set isOnlineMeeting=false for physical meetings
-- Set location field to room name/address`,
+- Set location field to room name/address
+
+RECURRING EVENTS:
+- Set recurrence; start/end are the first occurrence
+- Weekly 1:1 every Tuesday until March: "recurrence": {"frequency": "weekly", "daysOfWeek": ["tuesday"], "endDate": "2026-03-31"}
+- First Monday of every month, 12 times: "recurrence": {"frequency": "monthly", "weekOfMonth": "first", "daysOfWeek": ["monday"], "occurrences": 12}
+
+CONFLICTS:
+- The event is NOT created if it overlaps events in the calendar it goes into (calendarId, default: primary calendar); the response lists the conflicts instead
+- For a recurring event only the first occurrence is checked
+- checkAttendees=true also checks attendees' free/busy
+- Only set allowConflicts=true after the user confirms double-booking
+
+ATTACHMENTS:
+- Pass files (agenda, slides) as base64 in attachments; total size and allowed content types are limited by server configuration
+- Attendees are invited once the files are uploaded, so the invitation includes them
+- Use bodyType "html" for a formatted agenda in the body
+
+DELEGATES:
+- Set mailbox to create the event in another user's calendar (requires edit or delegate access). They become the organizer; conflicts are checked in their calendar`,
     readOnly: false,
-    requiredScopes: ['Calendars.ReadWrite'],
+    requiredScopes: ['Calendars.ReadWrite', 'Calendars.ReadWrite.Shared', 'MailboxSettings.Read'],
     inputSchema: {
       type: 'object' as const,
       properties: {
+        ...mailboxProperty,
         subject: {
           type: 'string',
           description: 'Event title',
@@ -1297,11 +4199,11 @@ IN-PERSON MEETINGS:
         },
         timeZone: {
           type: 'string',
-          description: 'Time zone (default: Europe/Berlin)',
+          description: 'Time zone (default: your mailbox time zone from get-mailbox-settings)',
         },
         body: {
           type: 'string',
-          description: 'Event description',
+          description: 'Event description, e.g. the agenda (HTML with bodyType "html")',
         },
         bodyType: {
           type: 'string',
@@ -1324,6 +4226,9 @@ IN-PERSON MEETINGS:
           type: 'string',
           description: 'Calendar ID (default: primary calendar)',
         },
+        recurrence: recurrenceProperty,
+        ...conflictProperties,
+        ...attachmentsProperty,
         attendees: {
           type: 'array',
           items: {
@@ -1353,11 +4258,13 @@ IN-PERSON MEETINGS:
 - Set isOnlineMeeting=false for physical meetings
 - Set location field to room name/address
 
+Conflicts: the draft is NOT created if it overlaps events in the calendar it goes into (response lists them); for a recurring event only the first occurrence is checked. Set allowConflicts=true only after the user confirms; checkAttendees=true also checks attendees' free/busy.
+
 Use this to prepare meetings for user review before sending invitations. Safer than create-calendar-event (which sends immediately).
 
 Draft event appears with "[Draft]" indicator. User can send from Outlook or you can use update-calendar-event to modify.`,
     readOnly: false,
-    requiredScopes: ['Calendars.ReadWrite'],
+    requiredScopes: ['Calendars.ReadWrite', 'MailboxSettings.Read'],
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -1375,11 +4282,11 @@ Draft event appears with "[Draft]" indicator. User can send from Outlook or you
         },
         timeZone: {
           type: 'string',
-          description: 'Time zone (default: Europe/Berlin)',
+          description: 'Time zone (default: your mailbox time zone from get-mailbox-settings)',
         },
         body: {
           type: 'string',
-          description: 'Event description',
+          description: 'Event description, e.g. the agenda (HTML with bodyType "html")',
         },
         bodyType: {
           type: 'string',
@@ -1406,6 +4313,9 @@ Draft event appears with "[Draft]" indicator. User can send from Outlook or you
           type: 'string',
           description: 'Calendar ID (default: primary calendar)',
         },
+        recurrence: recurrenceProperty,
+        ...conflictProperties,
+        ...attachmentsProperty,
         attendees: {
           type: 'array',
           items: {
@@ -1423,14 +4333,91 @@ Draft event appears with "[Draft]" indicator. User can send from Outlook or you
     },
     handler: createDraftCalendarEvent,
   },
+  {
+    name: 'import-ics',
+    description: `Create calendar events from iCalendar (.ics) data, e.g. an invitation or calendar file from an external system.
+
+Pass the file content as ics, or read it straight from a mail attachment with messageId and attachmentId (find them with list-mail-attachments).
+
+Behavior:
+- Events already in the calendar (same UID, e.g. imported before or received as an Outlook invitation) are skipped
+- Recurring events are created as series; excluded dates (EXDATE) are removed and modified occurrences are applied afterwards
+- Cancelled events and METHOD:CANCEL files are skipped, nothing is deleted
+- Attendees are NOT added by default because Outlook would send them invitations from your account. Set includeAttendees=true only if the user wants to invite them
+- Times without a time zone use timeZone, defaulting to the mailbox time zone
+
+Recurrence rules Graph cannot represent (e.g. hourly, several days of the month) make that event fail; the others are still imported.
+
+Returns imported events with their new IDs, skipped events with the reason, and failed events with the error.`,
+    readOnly: false,
+    requiredScopes: ['Calendars.ReadWrite', 'Mail.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        ics: {
+          type: 'string',
+          description: 'iCalendar text (BEGIN:VCALENDAR ... END:VCALENDAR)',
+        },
+        messageId: {
+          type: 'string',
+          description: 'ID of the mail message with the .ics attachment (instead of ics)',
+        },
+        attachmentId: {
+          type: 'string',
+          description: 'ID of the .ics attachment (from list-mail-attachments)',
+        },
+        calendarId: {
+          type: 'string',
+          description: 'Calendar to import into (default: primary calendar)',
+        },
+        includeAttendees: {
+          type: 'boolean',
+          description: 'Add the attendees from the file and send them invitations (default: false)',
+        },
+        timeZone: {
+          type: 'string',
+          description: 'Time zone for times without one (default: mailbox time zone)',
+        },
+      },
+    },
+    handler: importIcs,
+  },
   {
     name: 'update-calendar-event',
-    description: 'Update an existing calendar event',
+    description: `Update an existing calendar event.
+
+RECURRING EVENTS (applyTo):
+- "occurrence" (default): only the given event or occurrence
+- "thisAndFollowing": the given occurrence and all later ones. The original series ends the day before and a new series with the changes starts at the occurrence (returns both).
+- "series": the whole series (any occurrence ID or the series master ID). start/end only change the time of day; the series keeps its first date.
+
+Set recurrence to change the pattern of a series or turn a single event into a series.
+
+CONFLICTS:
+- Moving an event or occurrence checks your primary calendar first; on overlap nothing is saved and the conflicts are returned
+- checkAttendees=true also checks attendees' free/busy; allowConflicts=true saves anyway (only after the user confirms)
+- Not checked for applyTo="series"/"thisAndFollowing"
+
+ATTENDEES:
+- addAttendees/removeAttendees change the list incrementally; existing attendees keep their responses
+- attendees replaces the whole list (use only to rewrite it completely)
+
+Examples:
+- Move one occurrence: { "eventId": "<occurrence id>", "start": "2026-01-21T14:00:00", "end": "2026-01-21T15:00:00" }
+- Move the whole series to 3 PM: { "eventId": "<id>", "applyTo": "series", "start": "2026-01-20T15:00:00", "end": "2026-01-20T16:00:00" }
+- Rename from now on: { "eventId": "<occurrence id>", "applyTo": "thisAndFollowing", "subject": "Team sync (new format)" }
+- Add Maria: { "eventId": "<id>", "addAttendees": [{"email": "maria@company.com"}] }
+- Make private, show as free: { "eventId": "<id>", "sensitivity": "private", "showAs": "free" }
+
+attachments adds files to the event; existing attachments are kept. With applyTo="thisAndFollowing" they are added to the new series after it is created, so attendees are not re-notified and their invitation does not include the files.
+
+DELEGATES: for events in another user's calendar, pass the same mailbox that was used to find the event.`,
     readOnly: false,
-    requiredScopes: ['Calendars.ReadWrite'],
+    requiredScopes: ['Calendars.ReadWrite', 'Calendars.ReadWrite.Shared', 'MailboxSettings.Read'],
     inputSchema: {
       type: 'object' as const,
       properties: {
+        ...mailboxProperty,
         eventId: {
           type: 'string',
           description: 'The ID of the event to update',
@@ -1449,16 +4436,70 @@ Draft event appears with "[Draft]" indicator. User can send from Outlook or you
         },
         timeZone: {
           type: 'string',
-          description: 'Time zone',
+          description: 'Time zone (default: your mailbox time zone from get-mailbox-settings)',
         },
         body: {
           type: 'string',
-          description: 'Event description',
+          description: 'Event description, e.g. the agenda (HTML with bodyType "html")',
+        },
+        bodyType: {
+          type: 'string',
+          enum: ['html', 'text'],
+          description: 'Body content type (default: text)',
         },
         location: {
           type: 'string',
           description: 'Location name',
         },
+        isOnlineMeeting: {
+          type: 'boolean',
+          description: 'Turn the Teams/online meeting on or off',
+        },
+        showAs: {
+          type: 'string',
+          enum: ['free', 'tentative', 'busy', 'oof', 'workingElsewhere'],
+          description: 'How the time shows in your calendar',
+        },
+        sensitivity: {
+          type: 'string',
+          enum: ['normal', 'personal', 'private', 'confidential'],
+          description: 'Event sensitivity (private hides details from others)',
+        },
+        categories: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Category names (replaces existing)',
+        },
+        importance: {
+          type: 'string',
+          enum: ['low', 'normal', 'high'],
+          description: 'Event importance',
+        },
+        isReminderOn: {
+          type: 'boolean',
+          description: 'Turn the reminder on or off',
+        },
+        reminderMinutesBeforeStart: {
+          type: 'number',
+          description: 'Reminder minutes before event (turns the reminder on)',
+        },
+        addAttendees: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              email: { type: 'string', description: 'Attendee email address (e.g., "john@company.com")' },
+              type: { type: 'string', enum: ['required', 'optional', 'resource'], description: 'Attendance type (default: required)' },
+            },
+            required: ['email'],
+          },
+          description: 'Attendees to add, keeping everyone already invited',
+        },
+        removeAttendees: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Email addresses of attendees to remove',
+        },
         attendees: {
           type: 'array',
           items: {
@@ -1471,6 +4512,14 @@ Draft event appears with "[Draft]" indicator. User can send from Outlook or you
           },
           description: 'List of attendees (replaces existing). Use simplified format: [{"email": "john@company.com", "type": "required"}]. Do NOT use Graph API format like emailAddress.address.',
         },
+        recurrence: recurrenceProperty,
+        applyTo: {
+          type: 'string',
+          enum: ['occurrence', 'thisAndFollowing', 'series'],
+          description: 'For recurring events: update this occurrence only (default), this and following occurrences, or the whole series',
+        },
+        ...conflictProperties,
+        ...attachmentsProperty,
       },
       required: ['eventId'],
     },
@@ -1478,7 +4527,9 @@ Draft event appears with "[Draft]" indicator. User can send from Outlook or you
   },
   {
     name: 'delete-calendar-event',
-    description: 'Delete a calendar event',
+    description: `Delete a calendar event. Attendees are not notified; to cancel a meeting you organize with a notice to attendees, use cancel-calendar-event.
+
+For recurring events, applyTo deletes only the given occurrence (default), this and following occurrences (the series ends the day before), or the whole series.`,
     readOnly: false,
     requiredScopes: ['Calendars.ReadWrite'],
     inputSchema: {
@@ -1488,9 +4539,141 @@ Draft event appears with "[Draft]" indicator. User can send from Outlook or you
           type: 'string',
           description: 'The ID of the event to delete',
         },
+        applyTo: {
+          type: 'string',
+          enum: ['occurrence', 'thisAndFollowing', 'series'],
+          description: 'For recurring events: delete this occurrence only (default), this and following occurrences, or the whole series',
+        },
       },
       required: ['eventId'],
     },
     handler: deleteCalendarEvent,
   },
+  {
+    name: 'add-room-to-event',
+    description: `Book a meeting room on an existing event you organize.
+
+Adds the room as a resource attendee (other attendees are kept), sets the event location to the room, then waits for the room to respond.
+
+Returns bookingStatus: "accepted", "tentativelyAccepted", "declined" or "pending" (no answer within waitSeconds).
+
+Find free rooms first with find-meeting-times (isOnlineMeeting=false) or list-rooms + get-free-busy.
+
+Example: { "eventId": "<id>", "roomEmail": "room-4.01@company.com" }`,
+    readOnly: false,
+    requiredScopes: ['Calendars.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        eventId: {
+          type: 'string',
+          description: 'The ID of the event',
+        },
+        roomEmail: {
+          type: 'string',
+          description: 'Email address of the room',
+        },
+        waitSeconds: {
+          type: 'number',
+          description: "How long to wait for the room's response (0-30, default: 15)",
+        },
+      },
+      required: ['eventId', 'roomEmail'],
+    },
+    handler: addRoomToEvent,
+  },
+  {
+    name: 'cancel-calendar-event',
+    description: `Cancel a meeting you organize and send a cancellation notice to all attendees, optionally with a reason.
+
+Unlike delete-calendar-event, attendees are notified. Only works for meetings you organize; to drop out of someone else's meeting, use respond-to-event with response="decline".
+
+For recurring meetings, applyTo="occurrence" (default) cancels only the given occurrence; applyTo="series" cancels the whole series.
+
+Example: { "eventId": "<id>", "comment": "Cancelled due to the public holiday, see you next week." }`,
+    readOnly: false,
+    requiredScopes: ['Calendars.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        eventId: {
+          type: 'string',
+          description: 'The ID of the meeting (occurrence or series master)',
+        },
+        comment: {
+          type: 'string',
+          description: 'Cancellation message sent to attendees',
+        },
+        applyTo: {
+          type: 'string',
+          enum: ['occurrence', 'series'],
+          description: 'Cancel this occurrence only (default) or the whole recurring series',
+        },
+      },
+      required: ['eventId'],
+    },
+    handler: cancelCalendarEvent,
+  },
+  {
+    name: 'respond-to-event',
+    description: `Respond to a meeting invitation: accept, tentatively accept or decline.
+
+Recurring meetings:
+- applyTo="occurrence" (default): responds to the given occurrence only
+- applyTo="series": responds to the whole series (works with any occurrence ID or the series master ID)
+
+Proposing a new time:
+- Only with tentativelyAccept or decline, and requires sendResponse=true
+- Set both proposedStart and proposedEnd
+
+Set sendResponse=false to update your calendar without notifying the organizer. Returns the event with its updated responseStatus.
+
+Examples:
+- Accept: { "eventId": "<id>", "response": "accept" }
+- Decline whole series: { "eventId": "<id>", "response": "decline", "applyTo": "series", "comment": "I've moved teams, please remove me." }
+- Propose new time: { "eventId": "<id>", "response": "tentativelyAccept", "proposedStart": "2026-01-21T14:00:00", "proposedEnd": "2026-01-21T15:00:00" }`,
+    readOnly: false,
+    requiredScopes: ['Calendars.ReadWrite', 'MailboxSettings.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        eventId: {
+          type: 'string',
+          description: 'The ID of the event (occurrence or series master)',
+        },
+        response: {
+          type: 'string',
+          enum: ['accept', 'tentativelyAccept', 'decline'],
+          description: 'Your response to the invitation',
+        },
+        comment: {
+          type: 'string',
+          description: 'Message to the organizer (optional)',
+        },
+        sendResponse: {
+          type: 'boolean',
+          description: 'Send the response to the organizer (default: true)',
+        },
+        applyTo: {
+          type: 'string',
+          enum: ['occurrence', 'series'],
+          description: 'Respond to this occurrence only (default) or to the whole recurring series',
+        },
+        proposedStart: {
+          type: 'string',
+          description: 'Proposed new start time (ISO 8601, without offset). Only with tentativelyAccept/decline.',
+        },
+        proposedEnd: {
+          type: 'string',
+          description: 'Proposed new end time (ISO 8601, without offset). Only with tentativelyAccept/decline.',
+        },
+        timeZone: {
+          type: 'string',
+          description: 'Time zone of the proposed time (default: your mailbox time zone)',
+        },
+      },
+      required: ['eventId', 'response'],
+    },
+    handler: respondToEvent,
+  },
 ];
@@ -5,6 +5,7 @@
 import { mailToolDefinitions } from './mail.js';
 import { calendarToolDefinitions } from './calendar.js';
 import { peopleToolDefinitions } from './people.js';
+import { settingsToolDefinitions } from './settings.js';
 import { getConfig } from '../config.js';
 import logger from '../utils/logger.js';
 
@@ -33,6 +34,7 @@ export const allTools: ToolDefinition[] = [
   ...mailToolDefinitions as ToolDefinition[],
   ...calendarToolDefinitions as ToolDefinition[],
   ...peopleToolDefinitions as ToolDefinition[],
+  ...settingsToolDefinitions as ToolDefinition[],
 ];
 
 /**
@@ -106,4 +108,5 @@ export function getRequiredScopes(): string[] {
  */
 export * from './mail.js';
 export * from './calendar.js';
-export * from './people.js';
\ No newline at end of file
+export * from './people.js';
+export * from './settings.js';
\ No newline at end of file
@@ -3,16 +3,33 @@
  */
 
 import { z } from 'zod';
-import { graphRequest, handleGraphResponse, formatErrorResponse } from '../graph/client.js';
+import { graphRequest, graphBatch, handleGraphResponse, formatErrorResponse, type GraphError, type GraphResponse, type GraphBatchResponse } from '../graph/client.js';
 import logger from '../utils/logger.js';
 import { serializeResponse } from '../utils/tonl.js';
-import { sanitizePathSegment, sanitizeODataString, sanitizeODataDatetime } from '../utils/sanitize.js';
+import { sanitizePathSegment, sanitizeODataString, sanitizeODataDatetime, sanitizeEmailAddress } from '../utils/sanitize.js';
+import { stripHtml } from '../utils/html.js';
+import { resolveMailFolderId, getMailFolderId, isWellKnownFolder } from '../graph/folders.js';
+import { getDefaultTimeZone, getMailboxPath, withDelegateAccessError } from '../graph/mailbox.js';
+import {
+  listAttachments,
+  readAttachment,
+  attachmentInputSchema,
+  prepareAttachments,
+  canSendInline,
+  toFileAttachment,
+  addAttachments,
+  type PreparedAttachment,
+} from '../graph/attachments.js';
+
+/** Safety limit for paging through the messages of a conversation */
+const MAX_THREAD_PAGES = 20;
 
 // ============================================================================
 // Schemas
 // ============================================================================
 
 const listMailMessagesSchema = z.object({
+  mailbox: z.string().optional(),
   folderId: z.string().optional(),
   top: z.number().min(1).max(50).optional().default(10),
   skip: z.number().min(0).optional(),
@@ -41,11 +58,20 @@ const searchMailSchema = z.object({
   received: z.string().optional(),
   folderId: z.string().optional(),
   top: z.number().min(1).max(1000).optional().default(25),
+  mailbox: z.string().optional(),
 });
 
 const getMailMessageSchema = z.object({
   messageId: z.string(),
   includeConversationHistory: z.boolean().optional().default(false),
+  mailbox: z.string().optional(),
+});
+
+const getMailThreadSchema = z.object({
+  messageId: z.string().optional(),
+  conversationId: z.string().optional(),
+  top: z.number().min(1).max(100).optional().default(50),
+  mailbox: z.string().optional(),
 });
 
 const sendMailSchema = z.object({
@@ -57,6 +83,9 @@ const sendMailSchema = z.object({
   bcc: z.array(z.string()).optional(),
   importance: z.enum(['low', 'normal', 'high']).optional().default('normal'),
   saveToSentItems: z.boolean().optional().default(true),
+  attachments: z.array(attachmentInputSchema).optional(),
+  mailbox: z.string().optional(),
+  from: z.string().optional(),
 });
 
 const deleteMailMessageSchema = z.object({
@@ -66,6 +95,7 @@ const deleteMailMessageSchema = z.object({
 const moveMailMessageSchema = z.object({
   messageId: z.string(),
   destinationFolderId: z.string(),
+  mailbox: z.string().optional(),
 });
 
 const createDraftMailSchema = z.object({
@@ -76,11 +106,13 @@ const createDraftMailSchema = z.object({
   cc: z.array(z.string()).optional(),
   bcc: z.array(z.string()).optional(),
   importance: z.enum(['low', 'normal', 'high']).optional().default('normal'),
+  attachments: z.array(attachmentInputSchema).optional(),
 });
 
 const replyMailSchema = z.object({
   messageId: z.string(),
   comment: z.string(),
+  mailbox: z.string().optional(),
 });
 
 const createReplyDraftSchema = z.object({
@@ -88,6 +120,86 @@ const createReplyDraftSchema = z.object({
   comment: z.string().optional(),
 });
 
+const forwardMailSchema = z.object({
+  messageId: z.string(),
+  to: z.array(z.string()).min(1),
+  comment: z.string().optional(),
+});
+
+const createForwardDraftSchema = z.object({
+  messageId: z.string(),
+  to: z.array(z.string()).optional(),
+  comment: z.string().optional(),
+});
+
+const updateMailMessageSchema = z.object({
+  messageIds: z.array(z.string()).min(1).max(100),
+  isRead: z.boolean().optional(),
+  flagStatus: z.enum(['notFlagged', 'flagged', 'complete']).optional(),
+  flagStartDate: z.string().optional(),
+  flagDueDate: z.string().optional(),
+  categories: z.array(z.string()).optional(),
+  importance: z.enum(['low', 'normal', 'high']).optional(),
+  timeZone: z.string().optional(),
+});
+
+const bulkMoveMailMessagesSchema = z.object({
+  messageIds: z.array(z.string()).min(1).max(100),
+  destinationFolderId: z.string(),
+});
+
+const bulkDeleteMailMessagesSchema = z.object({
+  messageIds: z.array(z.string()).min(1).max(100),
+});
+
+const inboxRuleConditionsShape = {
+  fromAddresses: z.array(z.string()).optional(),
+  subjectContains: z.array(z.string()).optional(),
+  hasAttachments: z.boolean().optional(),
+  importance: z.enum(['low', 'normal', 'high']).optional(),
+};
+
+const inboxRuleActionsShape = {
+  moveToFolder: z.string().optional(),
+  assignCategories: z.array(z.string()).optional(),
+  markAsRead: z.boolean().optional(),
+  forwardTo: z.array(z.string()).optional(),
+  stopProcessingRules: z.boolean().optional(),
+};
+
+const createInboxRuleSchema = z.object({
+  displayName: z.string().min(1),
+  sequence: z.number().min(1).optional().default(1),
+  isEnabled: z.boolean().optional().default(true),
+  ...inboxRuleConditionsShape,
+  ...inboxRuleActionsShape,
+});
+
+const updateInboxRuleSchema = z.object({
+  ruleId: z.string(),
+  displayName: z.string().min(1).optional(),
+  sequence: z.number().min(1).optional(),
+  isEnabled: z.boolean().optional(),
+  ...inboxRuleConditionsShape,
+  ...inboxRuleActionsShape,
+});
+
+const deleteInboxRuleSchema = z.object({
+  ruleId: z.string(),
+});
+
+const listMailAttachmentsSchema = z.object({
+  messageId: z.string(),
+  mailbox: z.string().optional(),
+});
+
+const getMailAttachmentSchema = z.object({
+  messageId: z.string(),
+  attachmentId: z.string(),
+  format: z.enum(['auto', 'text', 'base64']).optional().default('auto'),
+  mailbox: z.string().optional(),
+});
+
 // ============================================================================
 // Tool Implementations
 // ============================================================================
@@ -96,6 +208,26 @@ const listMailFoldersSchema = z.object({
   parentFolderId: z.string().optional(),
 });
 
+const createMailFolderSchema = z.object({
+  displayName: z.string().min(1),
+  parentFolderId: z.string().optional(),
+  isHidden: z.boolean().optional().default(false),
+});
+
+const renameMailFolderSchema = z.object({
+  folderId: z.string(),
+  displayName: z.string().min(1),
+});
+
+const moveMailFolderSchema = z.object({
+  folderId: z.string(),
+  destinationFolderId: z.string(),
+});
+
+const deleteMailFolderSchema = z.object({
+  folderId: z.string(),
+});
+
 /**
  * List mail folders (top-level or subfolders of a specific folder)
  */
@@ -105,7 +237,7 @@ async function listMailFolders(params: Record<string, unknown>) {
   try {
     // If parentFolderId is provided, list child folders; otherwise list top-level folders
     const endpoint = parentFolderId 
-      ? `/me/mailFolders/${sanitizePathSegment(parentFolderId, 'parentFolderId')}/childFolders`
+      ? `/me/mailFolders/${await resolveMailFolderId(parentFolderId, 'parentFolderId')}/childFolders`
       : '/me/mailFolders';
     
     const response = await graphRequest<{ value: unknown[] }>(endpoint);
@@ -115,6 +247,103 @@ async function listMailFolders(params: Record<string, unknown>) {
   }
 }
 
+/**
+ * Create a mail folder (top-level or nested under a parent folder)
+ */
+async function createMailFolder(params: Record<string, unknown>) {
+  const { displayName, parentFolderId, isHidden } = createMailFolderSchema.parse(params);
+  
+  try {
+    const endpoint = parentFolderId
+      ? `/me/mailFolders/${await resolveMailFolderId(parentFolderId, 'parentFolderId')}/childFolders`
+      : '/me/mailFolders';
+    
+    const response = await graphRequest(endpoint, {
+      method: 'POST',
+      body: { displayName, isHidden },
+    });
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Rename a mail folder
+ */
+async function renameMailFolder(params: Record<string, unknown>) {
+  const { folderId, displayName } = renameMailFolderSchema.parse(params);
+  
+  try {
+    const response = await graphRequest(`/me/mailFolders/${await resolveMailFolderId(folderId)}`, {
+      method: 'PATCH',
+      body: { displayName },
+    });
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Move a mail folder (with its contents) under another folder
+ */
+async function moveMailFolder(params: Record<string, unknown>) {
+  const { folderId, destinationFolderId } = moveMailFolderSchema.parse(params);
+  
+  try {
+    const response = await graphRequest(`/me/mailFolders/${await resolveMailFolderId(folderId)}/move`, {
+      method: 'POST',
+      body: {
+        destinationId: await resolveMailFolderId(destinationFolderId, 'destinationFolderId'),
+      },
+    });
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Delete a mail folder (moves it with its contents to Deleted Items)
+ */
+async function deleteMailFolder(params: Record<string, unknown>) {
+  const { folderId } = deleteMailFolderSchema.parse(params);
+  
+  try {
+    // Resolve first: "Inbox/" or the Inbox's ID reach the same folder as "inbox"
+    const resolvedId = await resolveMailFolderId(folderId);
+    if (await isWellKnownFolder(resolvedId)) {
+      return formatErrorResponse(new Error(`Cannot delete the well-known folder "${folderId}"`));
+    }
+    
+    const response = await graphRequest(`/me/mailFolders/${resolvedId}`, {
+      method: 'DELETE',
+    });
+    
+    if (response.status === 204 || response.ok) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: serializeResponse({ success: true, message: 'Folder deleted' }),
+        }],
+      };
+    }
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Compact message fields returned by list/search tools
+ */
+const MESSAGE_SUMMARY_FIELDS = 'id,subject,from,toRecipients,ccRecipients,receivedDateTime,isRead,importance,hasAttachments,bodyPreview';
+
 /**
  * Build OData filter expression from user-friendly parameters
  * 
@@ -162,9 +391,10 @@ function buildMailFilter(params: {
  */
 async function listMailMessages(params: Record<string, unknown>) {
   const parsed = listMailMessagesSchema.parse(params);
-  const { folderId, top, skip, senderEmail, receivedAfter, receivedBefore, isRead, hasAttachments, importance, orderBy } = parsed;
+  const { mailbox, folderId, top, skip, senderEmail, receivedAfter, receivedBefore, isRead, hasAttachments, importance, orderBy } = parsed;
   
   try {
+    const mailboxPath = getMailboxPath(mailbox);
     const queryParams = new URLSearchParams();
     
     if (top) queryParams.set('$top', String(top));
@@ -188,16 +418,16 @@ async function listMailMessages(params: Record<string, unknown>) {
     }
     // When using complex filters (senderEmail, hasAttachments, importance), skip orderBy
     
-    queryParams.set('$select', 'id,subject,from,toRecipients,ccRecipients,receivedDateTime,isRead,importance,hasAttachments,bodyPreview');
+    queryParams.set('$select', MESSAGE_SUMMARY_FIELDS);
     
     const endpoint = folderId 
-      ? `/me/mailFolders/${sanitizePathSegment(folderId, 'folderId')}/messages`
-      : '/me/messages';
+      ? `${mailboxPath}/mailFolders/${await resolveMailFolderId(folderId, 'folderId', mailbox)}/messages`
+      : `${mailboxPath}/messages`;
     
     const url = `${endpoint}?${queryParams.toString()}`;
     
     const response = await graphRequest<{ value: unknown[] }>(url);
-    return handleGraphResponse(response);
+    return handleGraphResponse(withDelegateAccessError(response, mailbox, 'mailbox'));
   } catch (error) {
     return formatErrorResponse(error);
   }
@@ -348,9 +578,11 @@ function buildMailSearchQuery(params: {
  */
 async function searchMail(params: Record<string, unknown>) {
   const parsed = searchMailSchema.parse(params);
-  const { query, from, to, cc, bcc, participants, subject, body, attachment, hasAttachments, importance, received, folderId, top } = parsed;
+  const { query, from, to, cc, bcc, participants, subject, body, attachment, hasAttachments, importance, received, folderId, top, mailbox } = parsed;
   
   try {
+    const mailboxPath = getMailboxPath(mailbox);
+    
     // If folderId is specified, $search is not supported on folder endpoints
     // Use $filter for simple cases, or fetch and filter client-side
     if (folderId) {
@@ -375,11 +607,11 @@ async function searchMail(params: Record<string, unknown>) {
       const queryParams = new URLSearchParams();
       if (filters.length > 0) queryParams.set('$filter', filters.join(' and '));
       if (top) queryParams.set('$top', String(top));
-      queryParams.set('$select', 'id,subject,from,toRecipients,ccRecipients,receivedDateTime,isRead,importance,hasAttachments,bodyPreview');
+      queryParams.set('$select', MESSAGE_SUMMARY_FIELDS);
       
-      const url = `/me/mailFolders/${sanitizePathSegment(folderId, 'folderId')}/messages?${queryParams.toString()}`;
+      const url = `${mailboxPath}/mailFolders/${await resolveMailFolderId(folderId, 'folderId', mailbox)}/messages?${queryParams.toString()}`;
       
-      const response = await graphRequest<{ value: unknown[] }>(url);
+      const response = withDelegateAccessError(await graphRequest<{ value: unknown[] }>(url), mailbox, 'mailbox');
       
       // Note: full-text search (body, attachment content, etc.) is not supported on folder endpoints
       // If those params were specified, add a warning
@@ -410,9 +642,9 @@ async function searchMail(params: Record<string, unknown>) {
     const queryParams = new URLSearchParams();
     queryParams.set('$search', `"${searchQuery}"`);
     if (top) queryParams.set('$top', String(top));
-    queryParams.set('$select', 'id,subject,from,toRecipients,ccRecipients,receivedDateTime,isRead,importance,hasAttachments,bodyPreview');
+    queryParams.set('$select', MESSAGE_SUMMARY_FIELDS);
     
-    const url = `/me/messages?${queryParams.toString()}`;
+    const url = `${mailboxPath}/messages?${queryParams.toString()}`;
     
     // Note: Some search queries may require ConsistencyLevel header
     // See: https://learn.microsoft.com/en-us/graph/aad-advanced-queries
@@ -421,45 +653,37 @@ async function searchMail(params: Record<string, unknown>) {
         'ConsistencyLevel': 'eventual',
       },
     });
-    return handleGraphResponse(response);
+    return handleGraphResponse(withDelegateAccessError(response, mailbox, 'mailbox'));
   } catch (error) {
     return formatErrorResponse(error);
   }
 }
 
 /**
- * Strip HTML tags and decode entities for plain text extraction
+ * Fields returned by get-mail-message (the body field is added separately)
  */
-function stripHtml(html: string): string {
-  return html
-    // Remove style and script tags with content
-    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-    .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-    // Replace common block elements with newlines
-    .replace(/<\/?(p|div|br|hr|tr|li|h[1-6])[^>]*>/gi, '\n')
-    // Remove all remaining HTML tags
-    .replace(/<[^>]+>/g, '')
-    // Decode common HTML entities
-    .replace(/&nbsp;/gi, ' ')
-    .replace(/&amp;/gi, '&')
-    .replace(/&lt;/gi, '<')
-    .replace(/&gt;/gi, '>')
-    .replace(/&quot;/gi, '"')
-    .replace(/&#39;/gi, "'")
-    .replace(/&rsquo;/gi, "'")
-    .replace(/&lsquo;/gi, "'")
-    .replace(/&rdquo;/gi, '"')
-    .replace(/&ldquo;/gi, '"')
-    .replace(/&bull;/gi, '•')
-    .replace(/&mdash;/gi, '—')
-    .replace(/&ndash;/gi, '–')
-    // Collapse multiple newlines
-    .replace(/\n{3,}/g, '\n\n')
-    // Trim whitespace from each line
-    .split('\n')
-    .map(line => line.trim())
-    .join('\n')
-    .trim();
+const MESSAGE_DETAIL_FIELDS = 'id,subject,from,sender,toRecipients,ccRecipients,bccRecipients,replyTo,receivedDateTime,sentDateTime,isRead,isDraft,importance,hasAttachments,internetMessageId,conversationId,webLink,flag';
+
+/**
+ * Normalize a message body to plain text under the `body` key
+ * 
+ * Graph can return HTML even when plain text is requested, so HTML is
+ * stripped client-side. uniqueBody is renamed to body for consistency.
+ */
+function normalizeMessageBody(message: Record<string, unknown>): Record<string, unknown> {
+  const bodyData = (message.body || message.uniqueBody) as { contentType?: string; content?: string } | undefined;
+  
+  if (bodyData?.contentType?.toLowerCase() === 'html' && bodyData.content) {
+    bodyData.content = stripHtml(bodyData.content);
+    bodyData.contentType = 'text';
+  }
+  
+  if (message.uniqueBody) {
+    message.body = bodyData;
+    delete message.uniqueBody;
+  }
+  
+  return message;
 }
 
 /**
@@ -467,71 +691,197 @@ function stripHtml(html: string): string {
  * Always returns body as plain text to minimize context window usage
  */
 async function getMailMessage(params: Record<string, unknown>) {
-  const { messageId, includeConversationHistory } = getMailMessageSchema.parse(params);
+  const { messageId, includeConversationHistory, mailbox } = getMailMessageSchema.parse(params);
   
   try {
     // Use uniqueBody (excludes conversation history) by default
     const bodyField = includeConversationHistory ? 'body' : 'uniqueBody';
-    const selectFields = `id,subject,from,sender,toRecipients,ccRecipients,bccRecipients,replyTo,receivedDateTime,sentDateTime,isRead,isDraft,importance,hasAttachments,internetMessageId,conversationId,webLink,flag,${bodyField}`;
+    const selectFields = `${MESSAGE_DETAIL_FIELDS},${bodyField}`;
     
-    const url = `/me/messages/${sanitizePathSegment(messageId, 'messageId')}?$select=${encodeURIComponent(selectFields)}`;
+    const url = `${getMailboxPath(mailbox)}/messages/${sanitizePathSegment(messageId, 'messageId')}?$select=${encodeURIComponent(selectFields)}`;
     
     // Request plain text body from Graph API
-    const response = await graphRequest(url, {
+    const response = await graphRequest<Record<string, unknown>>(url, {
       headers: {
         'Prefer': 'outlook.body-content-type="text"',
       },
     });
-    const result = handleGraphResponse(response);
     
     // If API returned HTML anyway (can happen), strip HTML client-side
-    if (result.content?.[0]?.type === 'text') {
-      try {
-        const data = JSON.parse(result.content[0].text);
-        
-        // Handle both body and uniqueBody fields
-        const bodyData = data.body || data.uniqueBody;
-        if (bodyData?.contentType?.toLowerCase() === 'html' && bodyData?.content) {
-          bodyData.content = stripHtml(bodyData.content);
-          bodyData.contentType = 'text';
-          
-          // Normalize field name to 'body' for consistency
-          if (data.uniqueBody) {
-            data.body = bodyData;
-            delete data.uniqueBody;
-          }
-          
-          return {
-            content: [{ type: 'text' as const, text: serializeResponse(data) }],
-          };
-        }
-        
-        // Normalize uniqueBody to body if present
-        if (data.uniqueBody && !data.body) {
-          data.body = data.uniqueBody;
-          delete data.uniqueBody;
-          return {
-            content: [{ type: 'text' as const, text: serializeResponse(data) }],
-          };
-        }
-      } catch {
-        // If parsing fails, return original response
+    if (response.ok && response.data) {
+      response.data = normalizeMessageBody(response.data);
+    }
+    
+    return handleGraphResponse(withDelegateAccessError(response, mailbox, 'mailbox'));
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Get a whole conversation as a chronological list of unique message bodies
+ * Searches all folders (Inbox, Sent Items, archives, ...) via /me/messages.
+ */
+async function getMailThread(params: Record<string, unknown>) {
+  const { messageId, conversationId: conversationIdParam, top, mailbox } = getMailThreadSchema.parse(params);
+  
+  try {
+    const mailboxPath = getMailboxPath(mailbox);
+    let conversationId = conversationIdParam;
+    
+    if (!conversationId) {
+      if (!messageId) {
+        return formatErrorResponse(new Error('Either messageId or conversationId is required'));
+      }
+      
+      const messageResponse = await graphRequest<{ conversationId?: string }>(
+        `${mailboxPath}/messages/${sanitizePathSegment(messageId, 'messageId')}?$select=conversationId`
+      );
+      if (!messageResponse.ok || !messageResponse.data?.conversationId) {
+        return handleGraphResponse(withDelegateAccessError(messageResponse, mailbox, 'mailbox'));
+      }
+      conversationId = messageResponse.data.conversationId;
+    }
+    
+    // $orderby cannot be combined with a conversationId filter and Graph returns
+    // the messages in no particular order, so list the thread without bodies,
+    // sort client-side and load the bodies of the returned messages only
+    const queryParams = new URLSearchParams();
+    queryParams.set('$filter', `conversationId eq '${sanitizeODataString(conversationId)}' and isDraft eq false`);
+    queryParams.set('$select', 'id,subject,from,toRecipients,ccRecipients,sentDateTime,receivedDateTime,hasAttachments');
+    queryParams.set('$top', '250');
+    
+    const messages: Array<Record<string, unknown>> = [];
+    let url: string | undefined = `${mailboxPath}/messages?${queryParams.toString()}`;
+    
+    for (let page = 0; url && page < MAX_THREAD_PAGES; page++) {
+      const response: GraphResponse<{ value?: Array<Record<string, unknown>>; '@odata.nextLink'?: string }> = await graphRequest(url);
+      if (!response.ok) {
+        return handleGraphResponse(withDelegateAccessError(response, mailbox, 'mailbox'));
       }
+      
+      messages.push(...(response.data.value || []));
+      url = response.data['@odata.nextLink'];
     }
     
-    return result;
+    const truncated = Boolean(url);
+    if (truncated) {
+      logger.warn('Mail thread listing truncated', { conversationId, pages: MAX_THREAD_PAGES });
+    }
+    
+    // Keep the most recent messages, oldest first
+    const latest = messages
+      .sort((a, b) => String(a.sentDateTime || a.receivedDateTime).localeCompare(String(b.sentDateTime || b.receivedDateTime)))
+      .slice(-top);
+    
+    const bodies = await graphBatch<Record<string, unknown>>(latest.map((m, index) => ({
+      id: String(index),
+      method: 'GET' as const,
+      url: `${mailboxPath}/messages/${sanitizePathSegment(String(m.id), 'messageId')}?$select=uniqueBody`,
+      headers: { 'Prefer': 'outlook.body-content-type="text"' },
+    })));
+    
+    const thread = latest.map((m, index) => {
+      const bodyResponse = bodies[index];
+      const body = bodyResponse.ok
+        ? (normalizeMessageBody(bodyResponse.data).body as { content?: string } | undefined)?.content ?? ''
+        : undefined;
+      return {
+        id: m.id,
+        subject: m.subject,
+        from: m.from,
+        toRecipients: m.toRecipients,
+        ccRecipients: m.ccRecipients,
+        sentDateTime: m.sentDateTime,
+        hasAttachments: m.hasAttachments,
+        body,
+        ...(!bodyResponse.ok && { bodyError: getBatchErrorMessage(bodyResponse) }),
+      };
+    });
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse({
+          conversationId,
+          messageCount: thread.length,
+          totalMessages: messages.length,
+          ...(truncated && { truncated: true }),
+          messages: thread,
+        }),
+      }],
+    };
   } catch (error) {
     return formatErrorResponse(error);
   }
 }
 
+/**
+ * Upload attachments to a freshly created draft
+ * On failure the draft is left in Drafts and its ID is reported so the agent can recover.
+ */
+async function attachToDraft(draftId: string, attachments: PreparedAttachment[], mailboxPath = '/me'): Promise<void> {
+  try {
+    await addAttachments(`${mailboxPath}/messages/${sanitizePathSegment(draftId, 'draftId')}`, attachments);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${message} The draft was kept in the Drafts folder (id: ${draftId}).`);
+  }
+}
+
+/**
+ * Send a message whose attachments are too large for /sendMail
+ * Creates a draft, uploads the attachments (using upload sessions where needed), then sends it.
+ * Drafts sent this way are always saved to Sent Items. If sending fails, the
+ * draft is kept and its ID is reported, like when an upload fails.
+ */
+async function sendWithLargeAttachments(
+  message: Record<string, unknown>,
+  attachments: PreparedAttachment[],
+  mailbox?: string,
+  from?: string
+) {
+  const mailboxPath = getMailboxPath(mailbox);
+  const draftResponse = await graphRequest<{ id?: string }>(`${mailboxPath}/messages`, {
+    method: 'POST',
+    body: message,
+  });
+  
+  const draftId = draftResponse.data?.id;
+  if (!draftResponse.ok || !draftId) {
+    return handleGraphResponse(withDelegateAccessError(draftResponse, mailbox, 'mailbox'));
+  }
+  
+  await attachToDraft(draftId, attachments, mailboxPath);
+  
+  const sendResponse = await graphRequest(`${mailboxPath}/messages/${sanitizePathSegment(draftId, 'draftId')}/send`, {
+    method: 'POST',
+  });
+  
+  if (sendResponse.status === 202 || sendResponse.ok) {
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse({ success: true, message: 'Email sent successfully' }),
+      }],
+    };
+  }
+  
+  const sendError = withDelegateAccessError(sendResponse, mailbox ?? from, 'mailbox').data as GraphError;
+  const errorMessage = sendError?.error?.message || `Graph API error: ${sendResponse.status}`;
+  return formatErrorResponse(new Error(`${errorMessage} The draft was kept in the Drafts folder (id: ${draftId}).`));
+}
+
 /**
  * Send an email
  */
 async function sendMail(params: Record<string, unknown>) {
-  const { to, subject, body, bodyType, cc, bcc, importance, saveToSentItems } = sendMailSchema.parse(params);
+  const { to, subject, body, bodyType, cc, bcc, importance, saveToSentItems, attachments, mailbox, from } = sendMailSchema.parse(params);
   
   try {
+    const preparedAttachments = prepareAttachments(attachments || []);
+    const mailboxPath = getMailboxPath(mailbox);
+    
     const message: Record<string, unknown> = {
       subject,
       body: {
@@ -556,7 +906,25 @@ async function sendMail(params: Record<string, unknown>) {
       }));
     }
     
-    const response = await graphRequest('/me/sendMail', {
+    // Send As shows only the other address; Send on Behalf shows "user on behalf of ..."
+    if (from) {
+      message.from = { emailAddress: { address: sanitizeEmailAddress(from, 'from') } };
+    }
+    
+    // Graph rejects /sendMail payloads over 4 MB, so large attachments go through a draft
+    if (!canSendInline(preparedAttachments)) {
+      // A sent draft always lands in Sent Items
+      if (!saveToSentItems) {
+        return formatErrorResponse(new Error('saveToSentItems cannot be false with more than 3 MB of attachments: such messages are sent from a draft, which is always saved to Sent Items'));
+      }
+      return await sendWithLargeAttachments(message, preparedAttachments, mailbox, from);
+    }
+    
+    if (preparedAttachments.length) {
+      message.attachments = preparedAttachments.map(toFileAttachment);
+    }
+    
+    const response = await graphRequest(`${mailboxPath}/sendMail`, {
       method: 'POST',
       body: {
         message,
@@ -573,7 +941,7 @@ async function sendMail(params: Record<string, unknown>) {
       };
     }
     
-    return handleGraphResponse(response);
+    return handleGraphResponse(withDelegateAccessError(response, mailbox ?? from, 'mailbox'));
   } catch (error) {
     return formatErrorResponse(error);
   }
@@ -609,17 +977,17 @@ async function deleteMailMessage(params: Record<string, unknown>) {
  * Move a mail message to a different folder
  */
 async function moveMailMessage(params: Record<string, unknown>) {
-  const { messageId, destinationFolderId } = moveMailMessageSchema.parse(params);
+  const { messageId, destinationFolderId, mailbox } = moveMailMessageSchema.parse(params);
   
   try {
-    const response = await graphRequest(`/me/messages/${sanitizePathSegment(messageId, 'messageId')}/move`, {
+    const response = await graphRequest(`${getMailboxPath(mailbox)}/messages/${sanitizePathSegment(messageId, 'messageId')}/move`, {
       method: 'POST',
       body: {
-        destinationId: destinationFolderId,
+        destinationId: await resolveMailFolderId(destinationFolderId, 'destinationFolderId', mailbox),
       },
     });
     
-    return handleGraphResponse(response);
+    return handleGraphResponse(withDelegateAccessError(response, mailbox, 'mailbox'));
   } catch (error) {
     return formatErrorResponse(error);
   }
@@ -629,9 +997,12 @@ async function moveMailMessage(params: Record<string, unknown>) {
  * Create an email draft (saves to Drafts folder)
  */
 async function createDraftMail(params: Record<string, unknown>) {
-  const { to, subject, body, bodyType, cc, bcc, importance } = createDraftMailSchema.parse(params);
+  const { to, subject, body, bodyType, cc, bcc, importance, attachments } = createDraftMailSchema.parse(params);
   
   try {
+    const preparedAttachments = prepareAttachments(attachments || []);
+    const sendInline = canSendInline(preparedAttachments);
+    
     const message: Record<string, unknown> = {
       importance,
     };
@@ -665,11 +1036,21 @@ async function createDraftMail(params: Record<string, unknown>) {
       }));
     }
     
-    const response = await graphRequest('/me/messages', {
+    if (sendInline && preparedAttachments.length) {
+      message.attachments = preparedAttachments.map(toFileAttachment);
+    }
+    
+    const response = await graphRequest<{ id?: string; hasAttachments?: boolean }>('/me/messages', {
       method: 'POST',
       body: message,
     });
     
+    // Large attachments are uploaded once the draft exists
+    if (!sendInline && response.ok && response.data?.id) {
+      await attachToDraft(response.data.id, preparedAttachments);
+      response.data.hasAttachments = true;
+    }
+    
     return handleGraphResponse(response);
   } catch (error) {
     return formatErrorResponse(error);
@@ -680,10 +1061,10 @@ async function createDraftMail(params: Record<string, unknown>) {
  * Reply to a mail message (sends immediately)
  */
 async function replyMail(params: Record<string, unknown>) {
-  const { messageId, comment } = replyMailSchema.parse(params);
+  const { messageId, comment, mailbox } = replyMailSchema.parse(params);
   
   try {
-    const response = await graphRequest(`/me/messages/${sanitizePathSegment(messageId, 'messageId')}/reply`, {
+    const response = await graphRequest(`${getMailboxPath(mailbox)}/messages/${sanitizePathSegment(messageId, 'messageId')}/reply`, {
       method: 'POST',
       body: {
         comment,
@@ -699,7 +1080,7 @@ async function replyMail(params: Record<string, unknown>) {
       };
     }
     
-    return handleGraphResponse(response);
+    return handleGraphResponse(withDelegateAccessError(response, mailbox, 'mailbox'));
   } catch (error) {
     return formatErrorResponse(error);
   }
@@ -709,10 +1090,10 @@ async function replyMail(params: Record<string, unknown>) {
  * Reply all to a mail message (sends immediately)
  */
 async function replyAllMail(params: Record<string, unknown>) {
-  const { messageId, comment } = replyMailSchema.parse(params);
+  const { messageId, comment, mailbox } = replyMailSchema.parse(params);
   
   try {
-    const response = await graphRequest(`/me/messages/${sanitizePathSegment(messageId, 'messageId')}/replyAll`, {
+    const response = await graphRequest(`${getMailboxPath(mailbox)}/messages/${sanitizePathSegment(messageId, 'messageId')}/replyAll`, {
       method: 'POST',
       body: {
         comment,
@@ -728,7 +1109,7 @@ async function replyAllMail(params: Record<string, unknown>) {
       };
     }
     
-    return handleGraphResponse(response);
+    return handleGraphResponse(withDelegateAccessError(response, mailbox, 'mailbox'));
   } catch (error) {
     return formatErrorResponse(error);
   }
@@ -780,38 +1161,799 @@ async function createReplyAllDraft(params: Record<string, unknown>) {
   }
 }
 
-// ============================================================================
-// Tool Definitions for MCP
-// ============================================================================
-
-export const mailToolDefinitions = [
-  {
-    name: 'list-mail-folders',
-    description: `List mail folders. Can list top-level folders or subfolders of a specific folder.
-
-Use this to:
-- Get all top-level folders (Inbox, Sent Items, etc.)
-- Find subfolders within a folder (e.g., "Done" under Inbox)
-
-Examples:
-- List top-level folders: {} (no parameters)
-- List subfolders of Inbox: { "parentFolderId": "<inbox-folder-id>" }
+/**
+ * Forward a mail message (sends immediately)
+ */
+async function forwardMail(params: Record<string, unknown>) {
+  const { messageId, to, comment } = forwardMailSchema.parse(params);
+  
+  try {
+    const body: Record<string, unknown> = {
+      toRecipients: to.map(email => ({
+        emailAddress: { address: email },
+      })),
+    };
+    if (comment) {
+      body.comment = comment;
+    }
+    
+    const response = await graphRequest(`/me/messages/${sanitizePathSegment(messageId, 'messageId')}/forward`, {
+      method: 'POST',
+      body,
+    });
+    
+    if (response.status === 202 || response.ok) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: serializeResponse({ success: true, message: 'Message forwarded successfully' }),
+        }],
+      };
+    }
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
 
-To find a subfolder like "Done" under Inbox:
-1. First call with no params to get Inbox folder ID
-2. Then call with parentFolderId set to the Inbox ID`,
-    readOnly: true,
-    requiredScopes: ['Mail.Read'],
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        parentFolderId: {
-          type: 'string',
-          description: 'Parent folder ID to list subfolders. If not provided, lists top-level folders.',
-        },
-      },
-    },
-    handler: listMailFolders,
+/**
+ * Create a forward draft (saves to Drafts folder)
+ */
+async function createForwardDraft(params: Record<string, unknown>) {
+  const { messageId, to, comment } = createForwardDraftSchema.parse(params);
+  
+  try {
+    const body: Record<string, unknown> = {};
+    if (to?.length) {
+      body.toRecipients = to.map(email => ({
+        emailAddress: { address: email },
+      }));
+    }
+    if (comment) {
+      body.comment = comment;
+    }
+    
+    const response = await graphRequest(`/me/messages/${sanitizePathSegment(messageId, 'messageId')}/createForward`, {
+      method: 'POST',
+      body,
+    });
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Build the PATCH body for update-mail-message from user-friendly parameters
+ * Flag dates are interpreted in timeZone.
+ */
+function buildMessageUpdate(params: z.infer<typeof updateMailMessageSchema>, timeZone: string): Record<string, unknown> {
+  const updates: Record<string, unknown> = {};
+  
+  if (params.isRead !== undefined) updates.isRead = params.isRead;
+  if (params.categories !== undefined) updates.categories = params.categories;
+  if (params.importance !== undefined) updates.importance = params.importance;
+  
+  if (params.flagStatus !== undefined || params.flagStartDate || params.flagDueDate) {
+    // Setting dates implies a flag; Graph requires a start date whenever a due date is set
+    const flag: Record<string, unknown> = {
+      flagStatus: params.flagStatus || 'flagged',
+    };
+    const startDate = params.flagStartDate || params.flagDueDate;
+    if (startDate) {
+      flag.startDateTime = { dateTime: startDate, timeZone };
+    }
+    if (params.flagDueDate) {
+      flag.dueDateTime = { dateTime: params.flagDueDate, timeZone };
+    }
+    if (flag.flagStatus === 'complete') {
+      flag.completedDateTime = { dateTime: new Date().toISOString(), timeZone: 'UTC' };
+    }
+    updates.flag = flag;
+  }
+  
+  return updates;
+}
+
+/**
+ * Reduce a message to the list-mail-messages shape plus the updatable state fields
+ */
+function pickUpdatedMessageFields(message: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const field of [...MESSAGE_SUMMARY_FIELDS.split(','), 'flag', 'categories']) {
+    if (message[field] !== undefined) {
+      result[field] = message[field];
+    }
+  }
+  return result;
+}
+
+/**
+ * Extract the Graph error message from a failed batch response
+ */
+function getBatchErrorMessage(response: GraphBatchResponse): string {
+  const graphError = response.data as GraphError;
+  return graphError?.error?.message || `Graph API error: ${response.status}`;
+}
+
+/**
+ * Split message IDs into ones that are safe to use in request URLs and invalid ones
+ * Invalid IDs are reported as failures so they don't abort the rest of the batch.
+ */
+function partitionMessageIds(messageIds: string[]): {
+  valid: string[];
+  invalid: Array<{ id: string; error: string }>;
+} {
+  const valid: string[] = [];
+  const invalid: Array<{ id: string; error: string }> = [];
+  
+  for (const messageId of messageIds) {
+    try {
+      valid.push(sanitizePathSegment(messageId, 'messageId'));
+    } catch (error) {
+      invalid.push({ id: messageId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  
+  return { valid, invalid };
+}
+
+/**
+ * Update read state, flag, categories and importance on one or more messages
+ * Uses Graph JSON batching so many messages cost only a few requests.
+ */
+async function updateMailMessage(params: Record<string, unknown>) {
+  const parsed = updateMailMessageSchema.parse(params);
+  
+  try {
+    // Clearing a flag removes its dates, so dates only make sense with flagged or complete
+    if (parsed.flagStatus === 'notFlagged' && (parsed.flagStartDate || parsed.flagDueDate)) {
+      return formatErrorResponse(new Error('flagStartDate and flagDueDate cannot be combined with flagStatus "notFlagged"'));
+    }
+    
+    const hasFlagDates = Boolean(parsed.flagStartDate || parsed.flagDueDate);
+    const timeZone = parsed.timeZone || (hasFlagDates ? await getDefaultTimeZone() : 'UTC');
+    const updates = buildMessageUpdate(parsed, timeZone);
+    if (Object.keys(updates).length === 0) {
+      return formatErrorResponse(new Error('At least one field to update is required (isRead, flagStatus, flagStartDate, flagDueDate, categories, importance)'));
+    }
+    
+    const { valid, invalid } = partitionMessageIds(parsed.messageIds);
+    
+    const responses = await graphBatch<Record<string, unknown>>(valid.map((messageId, index) => ({
+      id: String(index),
+      method: 'PATCH' as const,
+      url: `/me/messages/${messageId}`,
+      body: updates,
+    })));
+    
+    const updated: Record<string, unknown>[] = [];
+    const failed: Array<{ id: string; error: string }> = [...invalid];
+    
+    responses.forEach((response, index) => {
+      if (response.ok) {
+        updated.push(pickUpdatedMessageFields(response.data));
+      } else {
+        failed.push({ id: valid[index], error: getBatchErrorMessage(response) });
+      }
+    });
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse(failed.length > 0 ? { value: updated, failed } : { value: updated }),
+      }],
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Move many mail messages to a folder using Graph JSON batching
+ */
+async function bulkMoveMailMessages(params: Record<string, unknown>) {
+  const { messageIds, destinationFolderId } = bulkMoveMailMessagesSchema.parse(params);
+  
+  try {
+    const destinationId = await resolveMailFolderId(destinationFolderId, 'destinationFolderId');
+    const { valid, invalid } = partitionMessageIds(messageIds);
+    
+    const responses = await graphBatch<{ id?: string }>(valid.map((messageId, index) => ({
+      id: String(index),
+      method: 'POST' as const,
+      url: `/me/messages/${messageId}/move`,
+      body: { destinationId },
+    })));
+    
+    // Moving a message gives it a new ID in the destination folder
+    const moved: Array<{ id: string; newId?: string }> = [];
+    const failed: Array<{ id: string; error: string }> = [...invalid];
+    
+    responses.forEach((response, index) => {
+      if (response.ok) {
+        moved.push({ id: valid[index], newId: response.data?.id });
+      } else {
+        failed.push({ id: valid[index], error: getBatchErrorMessage(response) });
+      }
+    });
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse({
+          summary: { total: messageIds.length, succeeded: moved.length, failed: failed.length },
+          moved,
+          failed,
+        }),
+      }],
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Delete many mail messages using Graph JSON batching
+ */
+async function bulkDeleteMailMessages(params: Record<string, unknown>) {
+  const { messageIds } = bulkDeleteMailMessagesSchema.parse(params);
+  
+  try {
+    const { valid, invalid } = partitionMessageIds(messageIds);
+    
+    const responses = await graphBatch(valid.map((messageId, index) => ({
+      id: String(index),
+      method: 'DELETE' as const,
+      url: `/me/messages/${messageId}`,
+    })));
+    
+    const deleted: string[] = [];
+    const failed: Array<{ id: string; error: string }> = [...invalid];
+    
+    responses.forEach((response, index) => {
+      if (response.ok) {
+        deleted.push(valid[index]);
+      } else {
+        failed.push({ id: valid[index], error: getBatchErrorMessage(response) });
+      }
+    });
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse({
+          summary: { total: messageIds.length, succeeded: deleted.length, failed: failed.length },
+          deleted,
+          failed,
+        }),
+      }],
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Build Graph messageRulePredicates from friendly condition parameters
+ */
+function buildRuleConditions(params: {
+  fromAddresses?: string[];
+  subjectContains?: string[];
+  hasAttachments?: boolean;
+  importance?: string;
+}): Record<string, unknown> {
+  const conditions: Record<string, unknown> = {};
+  
+  if (params.fromAddresses?.length) {
+    conditions.fromAddresses = params.fromAddresses.map(email => ({
+      emailAddress: { address: email },
+    }));
+  }
+  if (params.subjectContains?.length) conditions.subjectContains = params.subjectContains;
+  if (params.hasAttachments !== undefined) conditions.hasAttachments = params.hasAttachments;
+  if (params.importance) conditions.importance = params.importance;
+  
+  return conditions;
+}
+
+/**
+ * Build Graph messageRuleActions from friendly action parameters
+ */
+async function buildRuleActions(params: {
+  moveToFolder?: string;
+  assignCategories?: string[];
+  markAsRead?: boolean;
+  forwardTo?: string[];
+  stopProcessingRules?: boolean;
+}): Promise<Record<string, unknown>> {
+  const actions: Record<string, unknown> = {};
+  
+  // Rules need the real folder ID; well-known names and paths are resolved first
+  if (params.moveToFolder) actions.moveToFolder = await getMailFolderId(params.moveToFolder, 'moveToFolder');
+  if (params.assignCategories?.length) actions.assignCategories = params.assignCategories;
+  if (params.markAsRead !== undefined) actions.markAsRead = params.markAsRead;
+  if (params.forwardTo?.length) {
+    actions.forwardTo = params.forwardTo.map(email => ({
+      emailAddress: { address: email },
+    }));
+  }
+  if (params.stopProcessingRules !== undefined) actions.stopProcessingRules = params.stopProcessingRules;
+  
+  return actions;
+}
+
+/**
+ * List the user's inbox rules
+ */
+async function listInboxRules() {
+  try {
+    const response = await graphRequest<{ value: unknown[] }>('/me/mailFolders/inbox/messageRules');
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Create an inbox rule
+ */
+async function createInboxRule(params: Record<string, unknown>) {
+  const parsed = createInboxRuleSchema.parse(params);
+  
+  try {
+    const actions = await buildRuleActions(parsed);
+    if (Object.keys(actions).length === 0) {
+      return formatErrorResponse(new Error('At least one action is required (moveToFolder, assignCategories, markAsRead, forwardTo)'));
+    }
+    
+    const rule: Record<string, unknown> = {
+      displayName: parsed.displayName,
+      sequence: parsed.sequence,
+      isEnabled: parsed.isEnabled,
+      actions,
+    };
+    
+    const conditions = buildRuleConditions(parsed);
+    if (Object.keys(conditions).length > 0) {
+      rule.conditions = conditions;
+    }
+    
+    const response = await graphRequest('/me/mailFolders/inbox/messageRules', {
+      method: 'POST',
+      body: rule,
+    });
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Update an inbox rule
+ * Conditions and actions are merged into the existing rule, so only the given ones change.
+ */
+async function updateInboxRule(params: Record<string, unknown>) {
+  const parsed = updateInboxRuleSchema.parse(params);
+  
+  try {
+    const rulePath = `/me/mailFolders/inbox/messageRules/${sanitizePathSegment(parsed.ruleId, 'ruleId')}`;
+    const updates: Record<string, unknown> = {};
+    
+    if (parsed.displayName !== undefined) updates.displayName = parsed.displayName;
+    if (parsed.sequence !== undefined) updates.sequence = parsed.sequence;
+    if (parsed.isEnabled !== undefined) updates.isEnabled = parsed.isEnabled;
+    
+    const conditions = buildRuleConditions(parsed);
+    const actions = await buildRuleActions(parsed);
+    
+    // Graph replaces conditions/actions as a whole, so merge with the current rule
+    if (Object.keys(conditions).length > 0 || Object.keys(actions).length > 0) {
+      const current = await graphRequest<{ conditions?: Record<string, unknown>; actions?: Record<string, unknown> }>(rulePath);
+      if (!current.ok) {
+        return handleGraphResponse(current);
+      }
+      
+      if (Object.keys(conditions).length > 0) {
+        updates.conditions = { ...current.data.conditions, ...conditions };
+      }
+      if (Object.keys(actions).length > 0) {
+        updates.actions = { ...current.data.actions, ...actions };
+      }
+    }
+    
+    if (Object.keys(updates).length === 0) {
+      return formatErrorResponse(new Error('At least one field to update is required'));
+    }
+    
+    const response = await graphRequest(rulePath, {
+      method: 'PATCH',
+      body: updates,
+    });
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Delete an inbox rule
+ */
+async function deleteInboxRule(params: Record<string, unknown>) {
+  const { ruleId } = deleteInboxRuleSchema.parse(params);
+  
+  try {
+    const response = await graphRequest(`/me/mailFolders/inbox/messageRules/${sanitizePathSegment(ruleId, 'ruleId')}`, {
+      method: 'DELETE',
+    });
+    
+    if (response.status === 204 || response.ok) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: serializeResponse({ success: true, message: 'Inbox rule deleted' }),
+        }],
+      };
+    }
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Reshape an attached message/event into the get-mail-message shape
+ */
+function formatAttachedItem(item: Record<string, unknown>): Record<string, unknown> {
+  const isMessage = String(item['@odata.type'] || '').endsWith('.message');
+  if (!isMessage) {
+    return normalizeMessageBody(item);
+  }
+  
+  const message: Record<string, unknown> = {};
+  for (const field of [...MESSAGE_DETAIL_FIELDS.split(','), 'body']) {
+    if (item[field] !== undefined) {
+      message[field] = item[field];
+    }
+  }
+  return normalizeMessageBody(message);
+}
+
+/**
+ * List attachments of a mail message (metadata only)
+ */
+async function listMailAttachments(params: Record<string, unknown>) {
+  const { messageId, mailbox } = listMailAttachmentsSchema.parse(params);
+  
+  try {
+    const response = await listAttachments(`${getMailboxPath(mailbox)}/messages/${sanitizePathSegment(messageId, 'messageId')}`);
+    return handleGraphResponse(withDelegateAccessError(response, mailbox, 'mailbox'));
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Get a single mail attachment including its content
+ */
+async function getMailAttachment(params: Record<string, unknown>) {
+  const { messageId, attachmentId, format, mailbox } = getMailAttachmentSchema.parse(params);
+  
+  try {
+    const response = await readAttachment(
+      `${getMailboxPath(mailbox)}/messages/${sanitizePathSegment(messageId, 'messageId')}`,
+      attachmentId,
+      { format, normalizeItem: formatAttachedItem }
+    );
+    return handleGraphResponse(withDelegateAccessError(response, mailbox, 'mailbox'));
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+// ============================================================================
+// Tool Definitions for MCP
+// ============================================================================
+
+const mailboxProperty = {
+  mailbox: {
+    type: 'string',
+    description: "Email address of a shared mailbox (e.g. support@company.com) or another user's mailbox you have access to. Default: the user's own mailbox",
+  },
+};
+
+export const mailToolDefinitions = [
+  {
+    name: 'list-mail-folders',
+    description: `List mail folders. Can list top-level folders or subfolders of a specific folder.
+
+Use this to:
+- Get all top-level folders (Inbox, Sent Items, etc.)
+- Find subfolders within a folder (e.g., "Done" under Inbox)
+
+Examples:
+- List top-level folders: {} (no parameters)
+- List subfolders of Inbox: { "parentFolderId": "inbox" }
+
+Folders can be given as IDs, well-known names (inbox, drafts, sentitems, deleteditems, junkemail, archive) or display-name paths like "Inbox/Clients". All mail tools accept these forms, so you rarely need to look up folder IDs.`,
+    readOnly: true,
+    requiredScopes: ['Mail.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        parentFolderId: {
+          type: 'string',
+          description: 'Parent folder: ID, well-known name (e.g., "inbox") or path (e.g., "Inbox/Clients"). If not provided, lists top-level folders.',
+        },
+      },
+    },
+    handler: listMailFolders,
+  },
+  {
+    name: 'create-mail-folder',
+    description: `Create a mail folder. Creates a top-level folder, or a subfolder when parentFolderId is set.
+
+Examples:
+- Top-level folder: { "displayName": "Projects" }
+- Subfolder of Inbox: { "displayName": "Project X", "parentFolderId": "inbox" }
+- Nested: { "displayName": "Invoices", "parentFolderId": "Inbox/Project X" }
+
+Returns the new folder including its ID, which can be used with move-mail-message.`,
+    readOnly: false,
+    requiredScopes: ['Mail.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        displayName: {
+          type: 'string',
+          description: 'Name of the new folder',
+        },
+        parentFolderId: {
+          type: 'string',
+          description: 'Parent folder: ID, well-known name (inbox, archive, ...) or path (e.g., "Inbox/Clients"). If not provided, creates a top-level folder.',
+        },
+        isHidden: {
+          type: 'boolean',
+          description: 'Create as a hidden folder (default: false)',
+        },
+      },
+      required: ['displayName'],
+    },
+    handler: createMailFolder,
+  },
+  {
+    name: 'rename-mail-folder',
+    description: 'Rename a mail folder.',
+    readOnly: false,
+    requiredScopes: ['Mail.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        folderId: {
+          type: 'string',
+          description: 'Folder to rename: ID or path (e.g., "Inbox/Clients/Acme")',
+        },
+        displayName: {
+          type: 'string',
+          description: 'New folder name',
+        },
+      },
+      required: ['folderId', 'displayName'],
+    },
+    handler: renameMailFolder,
+  },
+  {
+    name: 'move-mail-folder',
+    description: 'Move a mail folder (including its messages and subfolders) under another folder. Use "msgfolderroot" as destination to make it a top-level folder.',
+    readOnly: false,
+    requiredScopes: ['Mail.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        folderId: {
+          type: 'string',
+          description: 'Folder to move: ID or path (e.g., "Inbox/Clients/Acme")',
+        },
+        destinationFolderId: {
+          type: 'string',
+          description: 'Destination parent folder: ID, well-known name (inbox, archive, msgfolderroot, ...) or path',
+        },
+      },
+      required: ['folderId', 'destinationFolderId'],
+    },
+    handler: moveMailFolder,
+  },
+  {
+    name: 'delete-mail-folder',
+    description: 'Delete a mail folder. The folder, its messages and subfolders are moved to Deleted Items. Well-known folders (Inbox, Sent Items, ...) cannot be deleted.',
+    readOnly: false,
+    requiredScopes: ['Mail.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        folderId: {
+          type: 'string',
+          description: 'Folder to delete: ID or path (e.g., "Inbox/Clients/Acme")',
+        },
+      },
+      required: ['folderId'],
+    },
+    handler: deleteMailFolder,
+  },
+  {
+    name: 'list-inbox-rules',
+    description: 'List the inbox rules that automatically process incoming mail. Returns each rule with its ID, sequence (order), conditions, actions and enabled state.',
+    readOnly: true,
+    requiredScopes: ['MailboxSettings.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {},
+    },
+    handler: listInboxRules,
+  },
+  {
+    name: 'create-inbox-rule',
+    description: `Create an inbox rule that automatically processes incoming mail ("always file mails from X into folder Y").
+
+Conditions are combined with AND; within a list (fromAddresses, subjectContains) any value matches. Without conditions the rule applies to ALL incoming mail. At least one action is required. Rules only affect NEW mail; use bulk-move-mail-messages for existing messages.
+
+Examples:
+- File a sender: { "displayName": "Acme to folder", "fromAddresses": ["billing@acme.com"], "moveToFolder": "Inbox/Clients/Acme" }
+- Tag invoices: { "displayName": "Invoices", "subjectContains": ["invoice", "Rechnung"], "assignCategories": ["Finance"] }`,
+    readOnly: false,
+    requiredScopes: ['MailboxSettings.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        displayName: {
+          type: 'string',
+          description: 'Rule name',
+        },
+        sequence: {
+          type: 'number',
+          description: 'Execution order among rules, lowest first (default: 1)',
+        },
+        isEnabled: {
+          type: 'boolean',
+          description: 'Whether the rule is active (default: true)',
+        },
+        fromAddresses: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Condition: sender EMAIL ADDRESSES (matches any)',
+        },
+        subjectContains: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Condition: subject contains any of these strings',
+        },
+        hasAttachments: {
+          type: 'boolean',
+          description: 'Condition: message has attachments',
+        },
+        importance: {
+          type: 'string',
+          enum: ['low', 'normal', 'high'],
+          description: 'Condition: message importance',
+        },
+        moveToFolder: {
+          type: 'string',
+          description: 'Action: move to this folder (ID, well-known name or path like "Inbox/Clients/Acme")',
+        },
+        assignCategories: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Action: assign these categories',
+        },
+        markAsRead: {
+          type: 'boolean',
+          description: 'Action: mark as read',
+        },
+        forwardTo: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Action: forward to these EMAIL ADDRESSES',
+        },
+        stopProcessingRules: {
+          type: 'boolean',
+          description: 'Action: do not apply later rules to matching messages',
+        },
+      },
+      required: ['displayName'],
+    },
+    handler: createInboxRule,
+  },
+  {
+    name: 'update-inbox-rule',
+    description: 'Update an inbox rule. Only the given fields change: new conditions/actions are merged into the existing ones. Use list-inbox-rules to get rule IDs.',
+    readOnly: false,
+    requiredScopes: ['MailboxSettings.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        ruleId: {
+          type: 'string',
+          description: 'The ID of the rule to update',
+        },
+        displayName: {
+          type: 'string',
+          description: 'Rule name',
+        },
+        sequence: {
+          type: 'number',
+          description: 'Execution order among rules, lowest first',
+        },
+        isEnabled: {
+          type: 'boolean',
+          description: 'Enable or disable the rule',
+        },
+        fromAddresses: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Condition: sender EMAIL ADDRESSES (matches any)',
+        },
+        subjectContains: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Condition: subject contains any of these strings',
+        },
+        hasAttachments: {
+          type: 'boolean',
+          description: 'Condition: message has attachments',
+        },
+        importance: {
+          type: 'string',
+          enum: ['low', 'normal', 'high'],
+          description: 'Condition: message importance',
+        },
+        moveToFolder: {
+          type: 'string',
+          description: 'Action: move to this folder (ID, well-known name or path like "Inbox/Clients/Acme")',
+        },
+        assignCategories: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Action: assign these categories',
+        },
+        markAsRead: {
+          type: 'boolean',
+          description: 'Action: mark as read',
+        },
+        forwardTo: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Action: forward to these EMAIL ADDRESSES',
+        },
+        stopProcessingRules: {
+          type: 'boolean',
+          description: 'Action: do not apply later rules to matching messages',
+        },
+      },
+      required: ['ruleId'],
+    },
+    handler: updateInboxRule,
+  },
+  {
+    name: 'delete-inbox-rule',
+    description: 'Delete an inbox rule',
+    readOnly: false,
+    requiredScopes: ['MailboxSettings.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        ruleId: {
+          type: 'string',
+          description: 'The ID of the rule to delete',
+        },
+      },
+      required: ['ruleId'],
+    },
+    handler: deleteInboxRule,
   },
   {
     name: 'list-mail-messages',
@@ -830,13 +1972,14 @@ Examples:
 - Last week: { "receivedAfter": "2026-01-13T00:00:00Z" }
 - Important with attachments: { "importance": "high", "hasAttachments": true }`,
     readOnly: true,
-    requiredScopes: ['Mail.Read'],
+    requiredScopes: ['Mail.Read', 'Mail.Read.Shared'],
     inputSchema: {
       type: 'object' as const,
       properties: {
+        ...mailboxProperty,
         folderId: {
           type: 'string',
-          description: 'Mail folder ID (default: Inbox). Use list-mail-folders to get folder IDs.',
+          description: 'Mail folder (default: Inbox): ID, well-known name (inbox, sentitems, archive, ...) or display-name path like "Inbox/Clients/Acme".',
         },
         senderEmail: {
           type: 'string',
@@ -897,12 +2040,13 @@ Examples:
 - By recipients: {"to": "alice@company.com", "subject": "budget"}
 - Between two people: {"query": "project", "participants": "alice@x.com, bob@x.com"}
 - By attachment: {"attachment": "report.pdf"}
-- Folder search: {"folderId": "xxx", "from": "alice@company.com"}`,
+- Folder search: {"folderId": "Inbox/Clients", "from": "alice@company.com"}`,
     readOnly: true,
-    requiredScopes: ['Mail.Read'],
+    requiredScopes: ['Mail.Read', 'Mail.Read.Shared'],
     inputSchema: {
       type: 'object' as const,
       properties: {
+        ...mailboxProperty,
         query: {
           type: 'string',
           description: 'Free-text search query (searches body, subject, attachments, sender/recipient names). Use this to find emails by PERSON NAME. Example: "John Doe" to find any emails involving that person. Not supported in folder-specific search.',
@@ -954,7 +2098,7 @@ Examples:
         },
         folderId: {
           type: 'string',
-          description: 'Folder ID to search within. When specified, only from, subject, hasAttachments, importance, and received filters are supported (full-text search not available on folder endpoints).',
+          description: 'Folder to search within: ID, well-known name or path like "Inbox/Clients". When specified, only from, subject, hasAttachments, importance, and received filters are supported (full-text search not available on folder endpoints).',
         },
         top: {
           type: 'number',
@@ -972,10 +2116,11 @@ By default, returns only the unique message body (excludes forwarded/replied con
 
 Use list-mail-messages or search-mail first to find message IDs and preview content, then use this tool only when you need the full message body.`,
     readOnly: true,
-    requiredScopes: ['Mail.Read'],
+    requiredScopes: ['Mail.Read', 'Mail.Read.Shared'],
     inputSchema: {
       type: 'object' as const,
       properties: {
+        ...mailboxProperty,
         messageId: {
           type: 'string',
           description: 'The ID of the message to retrieve',
@@ -989,14 +2134,122 @@ Use list-mail-messages or search-mail first to find message IDs and preview cont
     },
     handler: getMailMessage,
   },
+  {
+    name: 'get-mail-thread',
+    description: `Get a whole email conversation as a de-duplicated, chronological list of messages.
+
+Each message contains only its own new content (uniqueBody as plain text, without quoted replies), with sender, recipients and timestamp. Messages are collected from ALL folders, including Sent Items, so the user's own replies are part of the thread. Drafts are excluded.
+
+Long threads return the latest messages only (top, default 50), still in chronological order; totalMessages gives the size of the whole thread. Very large conversations are only scanned up to 5000 messages; the result is then marked truncated.
+
+Prefer this over get-mail-message with includeConversationHistory=true when you need to understand a discussion: no nested quotes, no repeated content.
+
+Examples:
+- From a message: { "messageId": "<id>" }
+- By conversation: { "conversationId": "<conversationId>" }`,
+    readOnly: true,
+    requiredScopes: ['Mail.Read', 'Mail.Read.Shared'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        ...mailboxProperty,
+        messageId: {
+          type: 'string',
+          description: 'ID of any message in the conversation',
+        },
+        conversationId: {
+          type: 'string',
+          description: 'Conversation ID (from get-mail-message). Used instead of messageId if provided.',
+        },
+        top: {
+          type: 'number',
+          description: 'Maximum number of messages to return, counted from the most recent (1-100, default: 50)',
+        },
+      },
+    },
+    handler: getMailThread,
+  },
+  {
+    name: 'list-mail-attachments',
+    description: `List the attachments of a mail message. Returns metadata only: id, name, kind, contentType, size, isInline.
+
+Kinds:
+- file: a regular file (use get-mail-attachment to read its content)
+- item: an attached email or calendar event (get-mail-attachment expands it)
+- reference: a link to a file in OneDrive/SharePoint
+
+Inline attachments (isInline=true) are usually images embedded in the body (logos, signatures) and can normally be ignored.`,
+    readOnly: true,
+    requiredScopes: ['Mail.Read', 'Mail.Read.Shared'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        ...mailboxProperty,
+        messageId: {
+          type: 'string',
+          description: 'The ID of the message',
+        },
+      },
+      required: ['messageId'],
+    },
+    handler: listMailAttachments,
+  },
+  {
+    name: 'get-mail-attachment',
+    description: `Read a single mail attachment. Use list-mail-attachments first to get attachment IDs.
+
+Returns:
+- File attachments: content as plain text for text types (txt, CSV, HTML, JSON, XML, ICS), base64 for binaries (PDF, images, Office files). The "encoding" field says which.
+- Item attachments (attached emails/events): the item in the same shape as get-mail-message
+- Reference attachments: the sourceUrl of the linked file
+
+Files larger than the server's read limit return metadata only with a _warning.`,
+    readOnly: true,
+    requiredScopes: ['Mail.Read', 'Mail.Read.Shared'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        ...mailboxProperty,
+        messageId: {
+          type: 'string',
+          description: 'The ID of the message',
+        },
+        attachmentId: {
+          type: 'string',
+          description: 'The ID of the attachment (from list-mail-attachments)',
+        },
+        format: {
+          type: 'string',
+          enum: ['auto', 'text', 'base64'],
+          description: 'Content format for file attachments. "auto" (default) returns text for text-like types and base64 otherwise. "text" forces UTF-8 decoding, "base64" forces raw bytes.',
+        },
+      },
+      required: ['messageId', 'attachmentId'],
+    },
+    handler: getMailAttachment,
+  },
   {
     name: 'send-mail',
-    description: 'Send an email message immediately.',
+    description: `Send an email message immediately.
+
+ATTACHMENTS:
+- Pass files as base64 in the attachments parameter
+- Files over 3 MB are handled automatically (draft + chunked upload, then sent)
+- Total size and allowed content types are limited by server configuration
+
+SHARED MAILBOXES:
+- mailbox sends from a shared mailbox (e.g. support@company.com); the copy is saved in its Sent Items
+- from sets the sender address when the user has Send As or Send on Behalf rights for it; the copy is saved in the user's own Sent Items`,
     readOnly: false,
-    requiredScopes: ['Mail.Send'],
+    requiredScopes: ['Mail.Send', 'Mail.Send.Shared'],
     inputSchema: {
       type: 'object' as const,
       properties: {
+        ...mailboxProperty,
+        from: {
+          type: 'string',
+          description: 'Sender address to send as or on behalf of (requires Send As or Send on Behalf rights)',
+        },
         to: {
           type: 'array',
           items: { type: 'string' },
@@ -1037,7 +2290,20 @@ HTML formatting (bodyType="html"):
         },
         saveToSentItems: {
           type: 'boolean',
-          description: 'Save to Sent Items folder (default: true)',
+          description: 'Save to Sent Items folder (default: true). Cannot be false for messages with more than 3 MB of attachments, which are always saved.',
+        },
+        attachments: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'File name including extension (e.g., "report.pdf")' },
+              contentType: { type: 'string', description: 'MIME type (e.g., "application/pdf"). Default: application/octet-stream' },
+              contentBytes: { type: 'string', description: 'File content, base64-encoded' },
+            },
+            required: ['name', 'contentBytes'],
+          },
+          description: 'Files to attach. Use format: [{"name": "report.pdf", "contentType": "application/pdf", "contentBytes": "<base64>"}]. Files over 3 MB are uploaded in chunks automatically.',
         },
       },
       required: ['to', 'subject', 'body'],
@@ -1065,23 +2331,128 @@ HTML formatting (bodyType="html"):
     name: 'move-mail-message',
     description: 'Move a mail message to a different folder',
     readOnly: false,
-    requiredScopes: ['Mail.ReadWrite'],
+    requiredScopes: ['Mail.ReadWrite', 'Mail.ReadWrite.Shared'],
     inputSchema: {
       type: 'object' as const,
       properties: {
+        ...mailboxProperty,
         messageId: {
           type: 'string',
           description: 'The ID of the message to move',
         },
         destinationFolderId: {
           type: 'string',
-          description: 'The ID of the destination folder',
+          description: 'Destination folder: ID, well-known name (inbox, archive, deleteditems, ...) or display-name path like "Inbox/Clients/Acme"',
         },
       },
       required: ['messageId', 'destinationFolderId'],
     },
     handler: moveMailMessage,
   },
+  {
+    name: 'bulk-move-mail-messages',
+    description: `Move many mail messages to a folder in one call. Prefer this over calling move-mail-message repeatedly: it uses Graph batching, which saves rate-limit budget and avoids MailboxConcurrency errors.
+
+Returns a per-message report: "moved" lists each original id with its newId (messages get a new ID in the destination folder), "failed" lists ids with the error.`,
+    readOnly: false,
+    requiredScopes: ['Mail.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        messageIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'IDs of the messages to move (1-100)',
+        },
+        destinationFolderId: {
+          type: 'string',
+          description: 'Destination folder: ID, well-known name (inbox, archive, deleteditems, ...) or display-name path like "Inbox/Clients/Acme"',
+        },
+      },
+      required: ['messageIds', 'destinationFolderId'],
+    },
+    handler: bulkMoveMailMessages,
+  },
+  {
+    name: 'bulk-delete-mail-messages',
+    description: `Delete many mail messages (moves them to Deleted Items) in one call. Prefer this over calling delete-mail-message repeatedly: it uses Graph batching, which saves rate-limit budget and avoids MailboxConcurrency errors.
+
+Returns a per-message report: "deleted" lists succeeded ids, "failed" lists ids with the error.`,
+    readOnly: false,
+    requiredScopes: ['Mail.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        messageIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'IDs of the messages to delete (1-100)',
+        },
+      },
+      required: ['messageIds'],
+    },
+    handler: bulkDeleteMailMessages,
+  },
+  {
+    name: 'update-mail-message',
+    description: `Update the state of one or more mail messages: read/unread, follow-up flag, categories, importance.
+
+Pass up to 100 message IDs; the same changes are applied to each (batched, so marking many messages at once is cheap). Returns the updated messages in the list-mail-messages shape (plus flag and categories), and a "failed" list for IDs that could not be updated.
+
+Examples:
+- Mark as read: { "messageIds": ["<id>"], "isRead": true }
+- Flag for follow-up by Friday: { "messageIds": ["<id>"], "flagDueDate": "2026-01-23T17:00:00", "timeZone": "Europe/Berlin" }
+- Mark flag complete: { "messageIds": ["<id>"], "flagStatus": "complete" }
+- Clear flag: { "messageIds": ["<id>"], "flagStatus": "notFlagged" }
+- Categorize: { "messageIds": ["<id1>", "<id2>"], "categories": ["Invoices"] }
+
+Note: categories REPLACES the message's existing categories. Category names must match the user's Outlook categories to show a color.`,
+    readOnly: false,
+    requiredScopes: ['Mail.ReadWrite', 'MailboxSettings.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        messageIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'IDs of the messages to update (1-100)',
+        },
+        isRead: {
+          type: 'boolean',
+          description: 'true = mark as read, false = mark as unread',
+        },
+        flagStatus: {
+          type: 'string',
+          enum: ['notFlagged', 'flagged', 'complete'],
+          description: 'Follow-up flag status. Defaults to "flagged" when flagStartDate or flagDueDate is set.',
+        },
+        flagStartDate: {
+          type: 'string',
+          description: 'Follow-up start date/time (ISO 8601, without offset). Example: "2026-01-20T09:00:00"',
+        },
+        flagDueDate: {
+          type: 'string',
+          description: 'Follow-up due date/time (ISO 8601, without offset). Example: "2026-01-23T17:00:00"',
+        },
+        categories: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Categories to set (replaces existing). Use [] to clear.',
+        },
+        importance: {
+          type: 'string',
+          enum: ['low', 'normal', 'high'],
+          description: 'Message importance',
+        },
+        timeZone: {
+          type: 'string',
+          description: 'Time zone for flag dates (default: your mailbox time zone). Example: "Europe/Berlin"',
+        },
+      },
+      required: ['messageIds'],
+    },
+    handler: updateMailMessage,
+  },
   {
     name: 'create-draft-mail',
     description: 'Create an email draft and save it to the Drafts folder. Returns the draft message ID which can be used to send or update it later.',
@@ -1128,6 +2499,19 @@ HTML formatting (bodyType="html"):
           enum: ['low', 'normal', 'high'],
           description: 'Email importance (default: normal)',
         },
+        attachments: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'File name including extension (e.g., "report.pdf")' },
+              contentType: { type: 'string', description: 'MIME type (e.g., "application/pdf"). Default: application/octet-stream' },
+              contentBytes: { type: 'string', description: 'File content, base64-encoded' },
+            },
+            required: ['name', 'contentBytes'],
+          },
+          description: 'Files to attach. Use format: [{"name": "report.pdf", "contentType": "application/pdf", "contentBytes": "<base64>"}]. Files over 3 MB are uploaded in chunks automatically.',
+        },
       },
     },
     handler: createDraftMail,
@@ -1136,10 +2520,11 @@ HTML formatting (bodyType="html"):
     name: 'reply-mail',
     description: 'Reply to a mail message. Sends the reply immediately to the original sender.',
     readOnly: false,
-    requiredScopes: ['Mail.Send'],
+    requiredScopes: ['Mail.Send', 'Mail.Send.Shared'],
     inputSchema: {
       type: 'object' as const,
       properties: {
+        ...mailboxProperty,
         messageId: {
           type: 'string',
           description: 'The ID of the message to reply to',
@@ -1157,10 +2542,11 @@ HTML formatting (bodyType="html"):
     name: 'reply-all-mail',
     description: 'Reply to all recipients of a mail message. Sends the reply immediately to all original recipients.',
     readOnly: false,
-    requiredScopes: ['Mail.Send'],
+    requiredScopes: ['Mail.Send', 'Mail.Send.Shared'],
     inputSchema: {
       type: 'object' as const,
       properties: {
+        ...mailboxProperty,
         messageId: {
           type: 'string',
           description: 'The ID of the message to reply to',
@@ -1216,4 +2602,56 @@ HTML formatting (bodyType="html"):
     },
     handler: createReplyAllDraft,
   },
+  {
+    name: 'forward-mail',
+    description: 'Forward a mail message to new recipients. Sends immediately and includes the original message and its attachments.',
+    readOnly: false,
+    requiredScopes: ['Mail.Send'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        messageId: {
+          type: 'string',
+          description: 'The ID of the message to forward',
+        },
+        to: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Recipient email addresses',
+        },
+        comment: {
+          type: 'string',
+          description: 'Text to add above the forwarded message (optional)',
+        },
+      },
+      required: ['messageId', 'to'],
+    },
+    handler: forwardMail,
+  },
+  {
+    name: 'create-forward-draft',
+    description: 'Create a forward draft of a mail message. Saves the draft to the Drafts folder for review before sending.',
+    readOnly: false,
+    requiredScopes: ['Mail.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        messageId: {
+          type: 'string',
+          description: 'The ID of the message to forward',
+        },
+        to: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Recipient email addresses (optional for drafts)',
+        },
+        comment: {
+          type: 'string',
+          description: 'Text to add above the forwarded message (optional)',
+        },
+      },
+      required: ['messageId'],
+    },
+    handler: createForwardDraft,
+  },
 ];
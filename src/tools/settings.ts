@@ -0,0 +1,159 @@
+/**
+ * Mailbox settings tools for Microsoft Graph API
+ */
+
+import { z } from 'zod';
+import { graphRequest, handleGraphResponse, formatErrorResponse } from '../graph/client.js';
+import { getDefaultTimeZone } from '../graph/mailbox.js';
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const setAutomaticRepliesSchema = z.object({
+  status: z.enum(['disabled', 'alwaysEnabled', 'scheduled']).optional(),
+  startDateTime: z.string().optional(),
+  endDateTime: z.string().optional(),
+  timeZone: z.string().optional(),
+  internalReplyMessage: z.string().optional(),
+  externalReplyMessage: z.string().optional(),
+  externalAudience: z.enum(['none', 'contactsOnly', 'all']).optional(),
+});
+
+// ============================================================================
+// Tool Implementations
+// ============================================================================
+
+/**
+ * Get the user's mailbox settings (time zone, working hours, language, formats, automatic replies)
+ */
+async function getMailboxSettings() {
+  try {
+    const response = await graphRequest(
+      '/me/mailboxSettings?$select=timeZone,workingHours,language,dateFormat,timeFormat,automaticRepliesSetting'
+    );
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Configure automatic replies (out-of-office)
+ */
+async function setAutomaticReplies(params: Record<string, unknown>) {
+  const {
+    status: statusParam, startDateTime, endDateTime, timeZone,
+    internalReplyMessage, externalReplyMessage, externalAudience,
+  } = setAutomaticRepliesSchema.parse(params);
+  
+  try {
+    // A schedule implies scheduled status
+    const status = statusParam ?? (startDateTime || endDateTime ? 'scheduled' : undefined);
+    
+    if (status === 'scheduled' && (!startDateTime || !endDateTime)) {
+      return formatErrorResponse(new Error('Scheduled automatic replies require both startDateTime and endDateTime'));
+    }
+    
+    const setting: Record<string, unknown> = {};
+    
+    if (status) setting.status = status;
+    if (status === 'scheduled') {
+      const scheduleTimeZone = timeZone || await getDefaultTimeZone();
+      setting.scheduledStartDateTime = { dateTime: startDateTime, timeZone: scheduleTimeZone };
+      setting.scheduledEndDateTime = { dateTime: endDateTime, timeZone: scheduleTimeZone };
+    }
+    if (internalReplyMessage !== undefined) setting.internalReplyMessage = internalReplyMessage;
+    if (externalReplyMessage !== undefined) setting.externalReplyMessage = externalReplyMessage;
+    if (externalAudience) setting.externalAudience = externalAudience;
+    
+    if (Object.keys(setting).length === 0) {
+      return formatErrorResponse(new Error('At least one setting is required (status, schedule, messages or externalAudience)'));
+    }
+    
+    const response = await graphRequest('/me/mailboxSettings', {
+      method: 'PATCH',
+      body: { automaticRepliesSetting: setting },
+    });
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+// ============================================================================
+// Tool Definitions for MCP
+// ============================================================================
+
+export const settingsToolDefinitions = [
+  {
+    name: 'get-mailbox-settings',
+    description: `Get the user's mailbox settings: time zone, working hours, language, date/time format and automatic replies (out-of-office) status.
+
+Use this to:
+- Learn the user's time zone before scheduling (calendar tools default to it)
+- Respect working hours when proposing meeting times
+- Check whether out-of-office is currently on`,
+    readOnly: true,
+    requiredScopes: ['MailboxSettings.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {},
+    },
+    handler: getMailboxSettings,
+  },
+  {
+    name: 'set-automatic-replies',
+    description: `Configure automatic replies (out-of-office). Only the given fields change.
+
+Status:
+- alwaysEnabled: on until turned off
+- scheduled: on between startDateTime and endDateTime (set automatically when dates are given)
+- disabled: off
+
+Messages can be HTML. Internal replies go to people in the organization, external replies to everyone else (limited by externalAudience).
+
+Examples:
+- Vacation: { "startDateTime": "2026-08-01T00:00:00", "endDateTime": "2026-08-15T23:59:00", "internalReplyMessage": "I'm on vacation until Aug 15. Contact Maria for urgent matters.", "externalReplyMessage": "I'm out of office until Aug 15.", "externalAudience": "all" }
+- Turn off: { "status": "disabled" }`,
+    readOnly: false,
+    requiredScopes: ['MailboxSettings.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        status: {
+          type: 'string',
+          enum: ['disabled', 'alwaysEnabled', 'scheduled'],
+          description: 'Automatic replies status. Defaults to "scheduled" when startDateTime/endDateTime are given.',
+        },
+        startDateTime: {
+          type: 'string',
+          description: 'Schedule start (ISO 8601, without offset). Example: "2026-08-01T00:00:00"',
+        },
+        endDateTime: {
+          type: 'string',
+          description: 'Schedule end (ISO 8601, without offset). Example: "2026-08-15T23:59:00"',
+        },
+        timeZone: {
+          type: 'string',
+          description: 'Time zone of the schedule (default: your mailbox time zone)',
+        },
+        internalReplyMessage: {
+          type: 'string',
+          description: 'Reply sent to senders inside the organization',
+        },
+        externalReplyMessage: {
+          type: 'string',
+          description: 'Reply sent to senders outside the organization',
+        },
+        externalAudience: {
+          type: 'string',
+          enum: ['none', 'contactsOnly', 'all'],
+          description: 'Which external senders get the external reply',
+        },
+      },
+    },
+    handler: setAutomaticReplies,
+  },
+];
@@ -15,6 +15,10 @@ export interface RequestContext {
   accessToken: string;
   /** User identifier (email or object ID) */
   userId?: string;
+  /** Tenant ID the access token was issued for */
+  tenantId?: string;
+  /** Request-scoped cache for lookups that are reused within one request */
+  cache?: Map<string, unknown>;
 }
 
 /**
@@ -54,6 +58,27 @@ export function getContextUserId(): string | undefined {
   return requestStorage.getStore()?.userId;
 }
 
+/**
+ * Get the tenant ID from the current request context
+ */
+export function getContextTenantId(): string | undefined {
+  return requestStorage.getStore()?.tenantId;
+}
+
+/**
+ * Get the request-scoped cache, creating it on first use.
+ * Returns undefined outside a request context.
+ */
+export function getRequestCache(): Map<string, unknown> | undefined {
+  const store = requestStorage.getStore();
+  if (!store) {
+    return undefined;
+  }
+  
+  store.cache ??= new Map();
+  return store.cache;
+}
+
 /**
  * Check if code is running within a request context
  */
@@ -0,0 +1,233 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import {
+  buildVTimeZone,
+  formatRecurrenceRule,
+  getEventEnd,
+  localToUtc,
+  parseIcs,
+  parseRecurrenceRule,
+  serializeIcs,
+  utcToLocal,
+  type IcsEvent,
+} from './ics.js';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+}
+
+function event(overrides: Partial<IcsEvent>): IcsEvent {
+  return {
+    uid: 'event-1@example.com',
+    start: { dateTime: '2026-07-01T09:00:00', timeZone: 'Europe/Berlin' },
+    end: { dateTime: '2026-07-01T10:00:00', timeZone: 'Europe/Berlin' },
+    attendees: [],
+    exdates: [],
+    categories: [],
+    ...overrides,
+  };
+}
+
+describe('parseIcs', () => {
+  it('parses an Outlook invitation', () => {
+    const calendar = parseIcs(fixture('outlook-invite.ics'));
+
+    expect(calendar.method).toBe('REQUEST');
+    expect(calendar.prodId).toBe('Microsoft Exchange Server 2010');
+    expect(calendar.events).toHaveLength(1);
+
+    const [invite] = calendar.events;
+    expect(invite.summary).toBe('Quarterly planning');
+    expect(invite.description).toBe('Agenda:\n1. Budget review; Q3\n2. Hiring, onboarding and next steps\n');
+    expect(invite.location).toBe('Room 4.12 (Berlin)');
+    expect(invite.start).toEqual({ dateTime: '2026-03-12T14:00:00', timeZone: 'W. Europe Standard Time' });
+    expect(invite.end).toEqual({ dateTime: '2026-03-12T15:30:00', timeZone: 'W. Europe Standard Time' });
+    expect(invite.organizer).toEqual({ email: 'jane.doe@contoso.com', name: 'Doe, Jane' });
+    expect(invite.attendees).toEqual([
+      { email: 'max@contoso.com', name: 'Max Mustermann', role: 'REQ-PARTICIPANT', partstat: 'NEEDS-ACTION', cutype: undefined, rsvp: true },
+      { email: 'erika@fabrikam.com', name: 'Erika Musterfrau', role: 'OPT-PARTICIPANT', partstat: 'NEEDS-ACTION', cutype: undefined, rsvp: true },
+    ]);
+    expect(invite.classification).toBe('PUBLIC');
+    expect(invite.priority).toBe(5);
+    expect(invite.status).toBe('CONFIRMED');
+  });
+
+  it('ignores VALARM properties', () => {
+    const [invite] = parseIcs(fixture('outlook-invite.ics')).events;
+    expect(invite.description).not.toBe('REMINDER');
+  });
+
+  it('parses recurrence rules, exceptions and overrides', () => {
+    const calendar = parseIcs(fixture('google-recurring.ics'));
+    expect(calendar.events).toHaveLength(2);
+
+    const [series, override] = calendar.events;
+    expect(series.rrule).toEqual({
+      freq: 'WEEKLY',
+      wkst: 'MO',
+      until: { dateTime: '2026-03-31T08:59:59', timeZone: 'UTC' },
+      byDay: ['TU'],
+    });
+    expect(series.exdates).toEqual([
+      { dateTime: '2026-02-03T10:00:00', timeZone: 'Europe/Berlin' },
+      { dateTime: '2026-02-10T10:00:00', timeZone: 'Europe/Berlin' },
+    ]);
+    expect(series.categories).toEqual(['Standup', 'Team, Core']);
+    expect(series.attendees[0]).toMatchObject({ email: 'alex@example.org', partstat: 'ACCEPTED', cutype: 'INDIVIDUAL' });
+
+    expect(override.uid).toBe(series.uid);
+    expect(override.recurrenceId).toEqual({ dateTime: '2026-01-20T10:00:00', timeZone: 'Europe/Berlin' });
+    expect(override.summary).toBe('Weekly standup (moved)');
+  });
+
+  it('parses all-day, floating and duration-based events', () => {
+    const [holiday, focus, birthday] = parseIcs(fixture('all-day.ics')).events;
+
+    expect(holiday.start).toEqual({ dateTime: '2026-12-24T00:00:00', isDate: true });
+    expect(holiday.end).toEqual({ dateTime: '2026-12-27T00:00:00', isDate: true });
+    expect(holiday.transparency).toBe('TRANSPARENT');
+
+    expect(focus.start).toEqual({ dateTime: '2026-10-01T09:00:00', timeZone: undefined });
+    expect(getEventEnd(focus).dateTime).toBe('2026-10-01T11:30:00');
+
+    expect(birthday.rrule).toEqual({ freq: 'YEARLY' });
+    expect(getEventEnd(birthday)).toEqual({ dateTime: '2026-05-15T00:00:00', isDate: true });
+  });
+
+  it('rejects payloads without a calendar', () => {
+    expect(() => parseIcs('BEGIN:VEVENT\nEND:VEVENT')).toThrow('missing BEGIN:VCALENDAR');
+  });
+
+  it('rejects events without a start', () => {
+    const text = 'BEGIN:VCALENDAR\nBEGIN:VEVENT\nUID:x\nSUMMARY:Broken\nEND:VEVENT\nEND:VCALENDAR';
+    expect(() => parseIcs(text)).toThrow('"Broken" has no DTSTART');
+  });
+});
+
+describe('serializeIcs', () => {
+  const now = new Date('2026-06-15T08:30:00Z');
+
+  it('writes CRLF lines, DTSTAMP and escaped text', () => {
+    const text = serializeIcs({
+      method: 'PUBLISH',
+      events: [event({ summary: 'Lunch; then, coffee', description: 'Line one\nLine two' })],
+    }, { now });
+
+    expect(text.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(text.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(text).toContain('\r\nMETHOD:PUBLISH\r\n');
+    expect(text).toContain('\r\nDTSTAMP:20260615T083000Z\r\n');
+    expect(text).toContain('\r\nSUMMARY:Lunch\\; then\\, coffee\r\n');
+    expect(text).toContain('\r\nDESCRIPTION:Line one\\nLine two\r\n');
+    expect(text).toContain('\r\nDTSTART;TZID=Europe/Berlin:20260701T090000\r\n');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const text = serializeIcs({ events: [event({ description: 'Grüße aus München '.repeat(20) })] }, { now });
+
+    const physical = text.split('\r\n');
+    for (const line of physical) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+      expect(line).not.toContain('�');
+    }
+    expect(physical.some(line => line.startsWith(' '))).toBe(true);
+  });
+
+  it('quotes parameters containing separators', () => {
+    const text = serializeIcs({
+      events: [event({ organizer: { email: 'jane.doe@contoso.com', name: 'Doe, Jane' } })],
+    }, { now });
+
+    expect(text).toContain('ORGANIZER;CN="Doe, Jane":mailto:jane.doe@contoso.com');
+  });
+
+  it('adds a VTIMEZONE for each IANA time zone', () => {
+    const text = serializeIcs({ events: [event({})] }, { now });
+
+    expect(text).toContain('BEGIN:VTIMEZONE\r\nTZID:Europe/Berlin\r\n');
+    expect(text).toContain('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU');
+    expect(text).toContain('RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU');
+    expect(text.match(/BEGIN:VTIMEZONE/g)).toHaveLength(1);
+  });
+
+  it('writes all-day and UTC values', () => {
+    const text = serializeIcs({
+      events: [event({
+        start: { dateTime: '2026-12-24T00:00:00', isDate: true },
+        end: { dateTime: '2026-12-27T00:00:00', isDate: true },
+        exdates: [{ dateTime: '2026-12-25T00:00:00', timeZone: 'UTC' }],
+      })],
+    }, { now });
+
+    expect(text).toContain('DTSTART;VALUE=DATE:20261224');
+    expect(text).toContain('DTEND;VALUE=DATE:20261227');
+    expect(text).toContain('EXDATE:20261225T000000Z');
+    expect(text).not.toContain('VTIMEZONE');
+  });
+
+  it('round-trips parsed events', () => {
+    for (const name of ['outlook-invite.ics', 'google-recurring.ics', 'all-day.ics']) {
+      const parsed = parseIcs(fixture(name));
+      const reparsed = parseIcs(serializeIcs(parsed, { now }));
+      expect(reparsed.events).toEqual(parsed.events);
+    }
+  });
+});
+
+describe('recurrence rules', () => {
+  it('round-trips RRULE values', () => {
+    const values = [
+      'FREQ=WEEKLY;UNTIL=20260331T085959Z;INTERVAL=2;BYDAY=MO,WE,FR;WKST=MO',
+      'FREQ=MONTHLY;COUNT=10;BYDAY=TU;BYSETPOS=-1',
+      'FREQ=YEARLY;BYMONTHDAY=14;BYMONTH=5',
+      'FREQ=DAILY;UNTIL=20261231;BYHOUR=9',
+    ];
+    for (const value of values) {
+      expect(formatRecurrenceRule(parseRecurrenceRule(value))).toBe(value);
+    }
+  });
+
+  it('keeps unknown rule parts', () => {
+    expect(parseRecurrenceRule('FREQ=DAILY;BYHOUR=9,17').other).toEqual({ BYHOUR: '9,17' });
+  });
+
+  it('requires FREQ', () => {
+    expect(() => parseRecurrenceRule('INTERVAL=2')).toThrow('missing FREQ');
+  });
+});
+
+describe('time zones', () => {
+  it('converts between local time and UTC across DST', () => {
+    expect(localToUtc('2026-01-15T10:00:00', 'Europe/Berlin')).toBe('2026-01-15T09:00:00');
+    expect(localToUtc('2026-07-15T10:00:00', 'Europe/Berlin')).toBe('2026-07-15T08:00:00');
+    expect(utcToLocal('2026-07-15T08:00:00', 'America/New_York')).toBe('2026-07-15T04:00:00');
+  });
+
+  it('leaves values unchanged for unknown time zones', () => {
+    expect(localToUtc('2026-01-15T10:00:00', 'W. Europe Standard Time')).toBe('2026-01-15T10:00:00');
+  });
+
+  it('builds transitions with wall-clock start times', () => {
+    const lines = buildVTimeZone('America/New_York', 2026);
+
+    expect(lines).toContain('DTSTART:20260308T020000');
+    expect(lines).toContain('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU');
+    expect(lines).toContain('DTSTART:20261101T020000');
+    expect(lines).toContain('RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU');
+  });
+
+  it('builds a single STANDARD block for zones without DST', () => {
+    const lines = buildVTimeZone('Asia/Kolkata', 2026);
+
+    expect(lines).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:Asia/Kolkata',
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      'TZOFFSETFROM:+0530',
+      'TZOFFSETTO:+0530',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+  });
+});
@@ -0,0 +1,669 @@
+/**
+ * iCalendar (RFC 5545) parsing and serialization
+ *
+ * Covers the VEVENT subset needed to move events between Outlook and other
+ * calendar systems: times with time zones, all-day events, recurrence rules,
+ * exceptions, organizer and attendees. On export, VTIMEZONE definitions are
+ * generated from the IANA time zone database via Intl; on import only the
+ * TZIDs are kept, since Graph resolves time zones by name.
+ */
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+const DEFAULT_PRODID = '-//useful-outlook-mcp//EN';
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 86_400_000;
+
+/** Weekday codes indexed like Date.getDay() */
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Date or date-time value
+ */
+export interface IcsDateTime {
+  /** Local date/time as YYYY-MM-DDTHH:MM:SS (T00:00:00 for dates) */
+  dateTime: string;
+  /** TZID, "UTC", or undefined for floating times and dates */
+  timeZone?: string;
+  /** Date without time (all-day) */
+  isDate?: boolean;
+}
+
+export interface IcsPerson {
+  email: string;
+  name?: string;
+}
+
+export interface IcsAttendee extends IcsPerson {
+  /** REQ-PARTICIPANT, OPT-PARTICIPANT, NON-PARTICIPANT or CHAIR */
+  role?: string;
+  /** NEEDS-ACTION, ACCEPTED, DECLINED or TENTATIVE */
+  partstat?: string;
+  /** INDIVIDUAL, GROUP, RESOURCE or ROOM */
+  cutype?: string;
+  rsvp?: boolean;
+}
+
+export interface IcsRecurrenceRule {
+  freq: string;
+  interval?: number;
+  count?: number;
+  until?: IcsDateTime;
+  /** Weekdays with optional ordinal, e.g. "MO", "1MO", "-1FR" */
+  byDay?: string[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  wkst?: string;
+  /** Rule parts without a dedicated field (BYHOUR, BYWEEKNO, ...) */
+  other?: Record<string, string>;
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary?: string;
+  description?: string;
+  location?: string;
+  start: IcsDateTime;
+  end?: IcsDateTime;
+  /** ISO 8601 duration, used when there is no DTEND */
+  duration?: string;
+  organizer?: IcsPerson;
+  attendees: IcsAttendee[];
+  rrule?: IcsRecurrenceRule;
+  exdates: IcsDateTime[];
+  /** Set on overrides of a single occurrence of a recurring event */
+  recurrenceId?: IcsDateTime;
+  /** TENTATIVE, CONFIRMED or CANCELLED */
+  status?: string;
+  /** OPAQUE or TRANSPARENT */
+  transparency?: string;
+  /** PUBLIC, PRIVATE or CONFIDENTIAL */
+  classification?: string;
+  /** 1 (highest) to 9 (lowest), 0 = undefined */
+  priority?: number;
+  categories: string[];
+  sequence?: number;
+  url?: string;
+  lastModified?: IcsDateTime;
+}
+
+export interface IcsCalendar {
+  prodId?: string;
+  method?: string;
+  events: IcsEvent[];
+}
+
+export interface SerializeIcsOptions {
+  prodId?: string;
+  /** Timestamp written as DTSTAMP (default: now) */
+  now?: Date;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Join folded lines (a line break followed by a space or tab continues the line)
+ */
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n[ \t]/g, '')
+    .replace(/\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '');
+}
+
+/**
+ * Split a content line into name, parameters and value
+ * Colons and semicolons inside quoted parameter values are not separators.
+ */
+function parseContentLine(line: string): ContentLine {
+  let inQuotes = false;
+  let valueStart = -1;
+  const separators: number[] = [];
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === ';') {
+      separators.push(i);
+    } else if (!inQuotes && char === ':') {
+      valueStart = i;
+      break;
+    }
+  }
+
+  if (valueStart === -1) {
+    throw new Error(`Invalid iCalendar line: "${line.slice(0, 50)}"`);
+  }
+
+  const bounds = [...separators, valueStart];
+  const name = line.slice(0, bounds[0]).toUpperCase();
+  const params: Record<string, string> = {};
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const param = line.slice(bounds[i] + 1, bounds[i + 1]);
+    const eq = param.indexOf('=');
+    if (eq === -1) continue;
+    params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"(.*)"$/, '$1');
+  }
+
+  return { name, params, value: line.slice(valueStart + 1) };
+}
+
+/**
+ * Decode an escaped TEXT value
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Split a TEXT list on unescaped commas
+ */
+function splitTextList(value: string): string[] {
+  return value.split(/(?<!\\),/).map(unescapeText).filter(item => item !== '');
+}
+
+/**
+ * Parse a DATE or DATE-TIME value
+ */
+function parseDateValue(value: string, params: Record<string, string>): IcsDateTime {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    throw new Error(`Invalid iCalendar date "${value}"`);
+  }
+
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  if (params.VALUE === 'DATE' || !match[4]) {
+    return { dateTime: `${date}T00:00:00`, isDate: true };
+  }
+
+  return {
+    dateTime: `${date}T${match[4]}:${match[5]}:${match[6]}`,
+    timeZone: match[7] ? 'UTC' : params.TZID,
+  };
+}
+
+/**
+ * Parse an ORGANIZER or ATTENDEE value
+ */
+function parsePerson(value: string, params: Record<string, string>): IcsPerson {
+  const email = value.replace(/^mailto:/i, '').trim();
+  return params.CN ? { email, name: params.CN } : { email };
+}
+
+/**
+ * Parse an RRULE value such as "FREQ=WEEKLY;BYDAY=TU;UNTIL=20260331T235959Z"
+ */
+export function parseRecurrenceRule(value: string): IcsRecurrenceRule {
+  const rule: IcsRecurrenceRule = { freq: '' };
+  const numbers = (v: string) => v.split(',').map(n => parseInt(n, 10)).filter(n => !isNaN(n));
+
+  for (const part of value.split(';')) {
+    const eq = part.indexOf('=');
+    if (eq === -1) continue;
+    const key = part.slice(0, eq).toUpperCase();
+    const partValue = part.slice(eq + 1);
+
+    switch (key) {
+      case 'FREQ': rule.freq = partValue.toUpperCase(); break;
+      case 'INTERVAL': rule.interval = parseInt(partValue, 10); break;
+      case 'COUNT': rule.count = parseInt(partValue, 10); break;
+      case 'UNTIL': rule.until = parseDateValue(partValue, {}); break;
+      case 'BYDAY': rule.byDay = partValue.toUpperCase().split(','); break;
+      case 'BYMONTHDAY': rule.byMonthDay = numbers(partValue); break;
+      case 'BYMONTH': rule.byMonth = numbers(partValue); break;
+      case 'BYSETPOS': rule.bySetPos = numbers(partValue); break;
+      case 'WKST': rule.wkst = partValue.toUpperCase(); break;
+      default:
+        rule.other = { ...rule.other, [key]: partValue };
+    }
+  }
+
+  if (!rule.freq) {
+    throw new Error(`Invalid recurrence rule "${value}": missing FREQ`);
+  }
+  return rule;
+}
+
+/**
+ * Apply one VEVENT property to the event being parsed
+ */
+function applyEventProperty(event: IcsEvent, line: ContentLine): void {
+  const { name, params, value } = line;
+
+  switch (name) {
+    case 'UID': event.uid = value; break;
+    case 'SUMMARY': event.summary = unescapeText(value); break;
+    case 'DESCRIPTION': event.description = unescapeText(value); break;
+    case 'LOCATION': event.location = unescapeText(value); break;
+    case 'DTSTART': event.start = parseDateValue(value, params); break;
+    case 'DTEND': event.end = parseDateValue(value, params); break;
+    case 'DURATION': event.duration = value; break;
+    case 'ORGANIZER': event.organizer = parsePerson(value, params); break;
+    case 'ATTENDEE':
+      event.attendees.push({
+        ...parsePerson(value, params),
+        role: params.ROLE?.toUpperCase(),
+        partstat: params.PARTSTAT?.toUpperCase(),
+        cutype: params.CUTYPE?.toUpperCase(),
+        rsvp: params.RSVP ? params.RSVP.toUpperCase() === 'TRUE' : undefined,
+      });
+      break;
+    case 'RRULE': event.rrule = parseRecurrenceRule(value); break;
+    case 'EXDATE':
+      event.exdates.push(...value.split(',').map(v => parseDateValue(v, params)));
+      break;
+    case 'RECURRENCE-ID': event.recurrenceId = parseDateValue(value, params); break;
+    case 'STATUS': event.status = value.toUpperCase(); break;
+    case 'TRANSP': event.transparency = value.toUpperCase(); break;
+    case 'CLASS': event.classification = value.toUpperCase(); break;
+    case 'PRIORITY': event.priority = parseInt(value, 10); break;
+    case 'CATEGORIES': event.categories.push(...splitTextList(value)); break;
+    case 'SEQUENCE': event.sequence = parseInt(value, 10); break;
+    case 'URL': event.url = value; break;
+    case 'LAST-MODIFIED': event.lastModified = parseDateValue(value, params); break;
+  }
+}
+
+/**
+ * Parse an iCalendar payload
+ * Only VEVENTs are returned; alarms, time zone definitions and other
+ * components are skipped.
+ *
+ * @throws Error if the payload is not iCalendar or an event has no DTSTART
+ */
+export function parseIcs(text: string): IcsCalendar {
+  const lines = unfoldLines(text.replace(/^\uFEFF/, ''));
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('Not an iCalendar payload: missing BEGIN:VCALENDAR');
+  }
+
+  const calendar: IcsCalendar = { events: [] };
+  const components: string[] = [];
+  let event: IcsEvent | undefined;
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw.trim());
+
+    if (line.name === 'BEGIN') {
+      const component = line.value.toUpperCase();
+      components.push(component);
+      if (component === 'VEVENT') {
+        event = { uid: '', start: { dateTime: '' }, attendees: [], exdates: [], categories: [] };
+      }
+      continue;
+    }
+
+    if (line.name === 'END') {
+      const component = components.pop();
+      if (component === 'VEVENT' && event) {
+        if (!event.start.dateTime) {
+          throw new Error(`Event "${event.summary ?? event.uid}" has no DTSTART`);
+        }
+        event.uid ||= `imported-${calendar.events.length + 1}`;
+        calendar.events.push(event);
+        event = undefined;
+      }
+      continue;
+    }
+
+    const current = components[components.length - 1];
+    if (current === 'VCALENDAR') {
+      if (line.name === 'PRODID') calendar.prodId = line.value;
+      if (line.name === 'METHOD') calendar.method = line.value.toUpperCase();
+    } else if (current === 'VEVENT' && event) {
+      applyEventProperty(event, line);
+    }
+  }
+
+  return calendar;
+}
+
+// ============================================================================
+// Dates, durations and time zones
+// ============================================================================
+
+/**
+ * Parse an ISO 8601 duration such as "PT1H30M", "P1D" or "P2W" into seconds
+ */
+export function durationToSeconds(duration: string): number {
+  const match = duration.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) {
+    throw new Error(`Invalid duration "${duration}"`);
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = (Number(weeks ?? 0) * 7 + Number(days ?? 0)) * 86_400
+    + Number(hours ?? 0) * 3600 + Number(minutes ?? 0) * 60 + Number(seconds ?? 0);
+  return sign === '-' ? -total : total;
+}
+
+/**
+ * Add seconds to a local date/time (YYYY-MM-DDTHH:MM:SS), ignoring time zones
+ */
+function addSeconds(dateTime: string, seconds: number): string {
+  const shifted = new Date(Date.parse(`${dateTime.slice(0, 19)}Z`) + seconds * 1000);
+  return shifted.toISOString().slice(0, 19);
+}
+
+/**
+ * Get the end of an event from DTEND, DURATION or the RFC 5545 defaults
+ * (one day for all-day events, zero length otherwise)
+ */
+export function getEventEnd(event: IcsEvent): IcsDateTime {
+  if (event.end) {
+    return event.end;
+  }
+  if (event.duration) {
+    return { ...event.start, dateTime: addSeconds(event.start.dateTime, durationToSeconds(event.duration)) };
+  }
+  if (event.start.isDate) {
+    return { ...event.start, dateTime: addSeconds(event.start.dateTime, 86_400) };
+  }
+  return event.start;
+}
+
+/**
+ * Check whether Intl knows an IANA time zone name
+ */
+export function isKnownTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a function returning the UTC offset (minutes) of a time zone at an instant
+ */
+function offsetResolver(timeZone: string): (instant: number) => number {
+  const format = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' });
+
+  return (instant: number) => {
+    const name = format.formatToParts(new Date(instant)).find(p => p.type === 'timeZoneName')?.value ?? 'GMT';
+    const match = name.match(/GMT([+-])(\d{1,2})(?::?(\d{2}))?/);
+    if (!match) return 0;
+    const minutes = Number(match[2]) * 60 + Number(match[3] ?? 0);
+    return match[1] === '-' ? -minutes : minutes;
+  };
+}
+
+/**
+ * Convert a local date/time in an IANA time zone to UTC
+ * Returns the input unchanged for unknown time zones.
+ */
+export function localToUtc(dateTime: string, timeZone: string): string {
+  if (!isKnownTimeZone(timeZone)) return dateTime.slice(0, 19);
+
+  const getOffset = offsetResolver(timeZone);
+  const asUtc = Date.parse(`${dateTime.slice(0, 19)}Z`);
+  // Second pass corrects for the offset changing between the guess and the result
+  let instant = asUtc - getOffset(asUtc) * MINUTE_MS;
+  instant = asUtc - getOffset(instant) * MINUTE_MS;
+  return new Date(instant).toISOString().slice(0, 19);
+}
+
+/**
+ * Convert a UTC date/time to local time in an IANA time zone
+ * Returns the input unchanged for unknown time zones.
+ */
+export function utcToLocal(dateTime: string, timeZone: string): string {
+  if (!isKnownTimeZone(timeZone)) return dateTime.slice(0, 19);
+
+  const instant = Date.parse(`${dateTime.slice(0, 19)}Z`);
+  return new Date(instant + offsetResolver(timeZone)(instant) * MINUTE_MS).toISOString().slice(0, 19);
+}
+
+/**
+ * Format a UTC offset in minutes as +HHMM / -HHMM
+ */
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Build a VTIMEZONE for an IANA time zone from its transitions in a given year
+ * Transitions are expressed as yearly rules ("last Sunday of March"), which
+ * matches how daylight saving time is defined in practice.
+ */
+export function buildVTimeZone(timeZone: string, year: number): string[] {
+  const getOffset = offsetResolver(timeZone);
+  const transitions: Array<{ at: number; from: number; to: number }> = [];
+
+  let day = Date.UTC(year, 0, 1);
+  let offset = getOffset(day);
+  for (let i = 0; i < 366; i++) {
+    const next = day + DAY_MS;
+    const nextOffset = getOffset(next);
+    if (nextOffset !== offset) {
+      // Narrow down to the quarter hour of the change
+      let instant = day;
+      while (instant < next && getOffset(instant + 15 * MINUTE_MS) === offset) {
+        instant += 15 * MINUTE_MS;
+      }
+      transitions.push({ at: instant + 15 * MINUTE_MS, from: offset, to: nextOffset });
+    }
+    day = next;
+    offset = nextOffset;
+  }
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+  if (transitions.length === 0) {
+    const fixed = formatOffset(offset);
+    lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${fixed}`, `TZOFFSETTO:${fixed}`, 'END:STANDARD');
+  }
+
+  for (const transition of transitions) {
+    // DTSTART is the wall-clock time of the change, before it happens
+    const local = new Date(transition.at + transition.from * MINUTE_MS);
+    const dayOfMonth = local.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)).getUTCDate();
+    const ordinal = dayOfMonth + 7 > daysInMonth ? -1 : Math.ceil(dayOfMonth / 7);
+    const kind = transition.to > transition.from ? 'DAYLIGHT' : 'STANDARD';
+
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${local.toISOString().slice(0, 19).replace(/[-:]/g, '')}`,
+      `TZOFFSETFROM:${formatOffset(transition.from)}`,
+      `TZOFFSETTO:${formatOffset(transition.to)}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${ordinal}${WEEKDAY_CODES[local.getUTCDay()]}`,
+      `END:${kind}`,
+    );
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+/**
+ * Escape a TEXT value
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Quote a parameter value if it contains separators (double quotes are not allowed)
+ */
+function formatParamValue(value: string): string {
+  const clean = value.replace(/"/g, "'");
+  return /[:;,]/.test(clean) ? `"${clean}"` : clean;
+}
+
+/**
+ * Fold a content line so no physical line exceeds 75 octets
+ * Never splits a multi-byte character.
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join(`${CRLF} `);
+}
+
+/**
+ * Build a content line from name, parameters and an already formatted value
+ */
+function contentLine(name: string, value: string, params: Record<string, string | undefined> = {}): string {
+  const paramText = Object.entries(params)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined && entry[1] !== '')
+    .map(([key, paramValue]) => `;${key}=${formatParamValue(paramValue)}`)
+    .join('');
+  return `${name}${paramText}:${value}`;
+}
+
+/**
+ * Format a date/time value with its VALUE/TZID parameters
+ */
+function formatDateValue(value: IcsDateTime): { value: string; params: Record<string, string> } {
+  const compact = value.dateTime.replace(/[-:]/g, '').slice(0, 15);
+
+  if (value.isDate) {
+    return { value: compact.slice(0, 8), params: { VALUE: 'DATE' } };
+  }
+  if (value.timeZone === 'UTC') {
+    return { value: `${compact}Z`, params: {} };
+  }
+  return { value: compact, params: value.timeZone ? { TZID: value.timeZone } : {} };
+}
+
+/**
+ * Format a date/time property line
+ */
+function dateLine(name: string, value: IcsDateTime): string {
+  const formatted = formatDateValue(value);
+  return contentLine(name, formatted.value, formatted.params);
+}
+
+/**
+ * Format a recurrence rule as an RRULE value
+ */
+export function formatRecurrenceRule(rule: IcsRecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.until) parts.push(`UNTIL=${formatDateValue(rule.until).value}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.interval !== undefined && rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.wkst) parts.push(`WKST=${rule.wkst}`);
+  for (const [key, value] of Object.entries(rule.other ?? {})) {
+    parts.push(`${key}=${value}`);
+  }
+
+  return parts.join(';');
+}
+
+/**
+ * Serialize one VEVENT
+ */
+function serializeEvent(event: IcsEvent, stamp: string): string[] {
+  const lines = ['BEGIN:VEVENT', contentLine('UID', event.uid), `DTSTAMP:${stamp}`, dateLine('DTSTART', event.start)];
+
+  if (event.end) {
+    lines.push(dateLine('DTEND', event.end));
+  } else if (event.duration) {
+    lines.push(contentLine('DURATION', event.duration));
+  }
+  if (event.recurrenceId) lines.push(dateLine('RECURRENCE-ID', event.recurrenceId));
+  if (event.summary !== undefined) lines.push(contentLine('SUMMARY', escapeText(event.summary)));
+  if (event.description) lines.push(contentLine('DESCRIPTION', escapeText(event.description)));
+  if (event.location) lines.push(contentLine('LOCATION', escapeText(event.location)));
+  if (event.organizer) {
+    lines.push(contentLine('ORGANIZER', `mailto:${event.organizer.email}`, { CN: event.organizer.name }));
+  }
+  for (const attendee of event.attendees) {
+    lines.push(contentLine('ATTENDEE', `mailto:${attendee.email}`, {
+      CN: attendee.name,
+      CUTYPE: attendee.cutype,
+      ROLE: attendee.role,
+      PARTSTAT: attendee.partstat,
+      RSVP: attendee.rsvp === undefined ? undefined : String(attendee.rsvp).toUpperCase(),
+    }));
+  }
+  if (event.rrule) lines.push(`RRULE:${formatRecurrenceRule(event.rrule)}`);
+  for (const exdate of event.exdates) lines.push(dateLine('EXDATE', exdate));
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.transparency) lines.push(`TRANSP:${event.transparency}`);
+  if (event.classification) lines.push(`CLASS:${event.classification}`);
+  if (event.priority !== undefined) lines.push(`PRIORITY:${event.priority}`);
+  if (event.categories.length) lines.push(contentLine('CATEGORIES', event.categories.map(escapeText).join(',')));
+  if (event.sequence !== undefined) lines.push(`SEQUENCE:${event.sequence}`);
+  if (event.url) lines.push(contentLine('URL', event.url));
+  if (event.lastModified) lines.push(dateLine('LAST-MODIFIED', event.lastModified));
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+/**
+ * Serialize events as an iCalendar payload
+ * Adds a VTIMEZONE for every IANA time zone the events use; other TZIDs
+ * (e.g. Windows names) are written without a definition.
+ */
+export function serializeIcs(calendar: Omit<IcsCalendar, 'prodId'>, options: SerializeIcsOptions = {}): string {
+  const stamp = `${(options.now ?? new Date()).toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`;
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${options.prodId ?? DEFAULT_PRODID}`, 'CALSCALE:GREGORIAN'];
+  if (calendar.method) lines.push(`METHOD:${calendar.method}`);
+
+  // First year each time zone is used in, as the base for its transition rules
+  const timeZones = new Map<string, number>();
+  for (const event of calendar.events) {
+    for (const value of [event.start, event.end, event.recurrenceId, ...event.exdates]) {
+      if (!value?.timeZone || value.timeZone === 'UTC' || value.isDate) continue;
+      const year = Number(value.dateTime.slice(0, 4));
+      timeZones.set(value.timeZone, Math.min(year, timeZones.get(value.timeZone) ?? year));
+    }
+  }
+  for (const [timeZone, year] of timeZones) {
+    if (isKnownTimeZone(timeZone)) lines.push(...buildVTimeZone(timeZone, year));
+  }
+
+  for (const event of calendar.events) {
+    lines.push(...serializeEvent(event, stamp));
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
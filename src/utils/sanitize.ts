@@ -61,21 +61,43 @@ export function sanitizeODataDatetime(value: string, paramName = 'date'): string
   return value;
 }
 
-const TIMEZONE_PATTERN = /^[a-zA-Z0-9_/+-]+$/;
+const TIMEZONE_PATTERN = /^[a-zA-Z0-9_/+.-]+( [a-zA-Z0-9_/+.-]+)*$/;
 
 /**
- * Validate that a value is a safe IANA timezone identifier for use in
+ * Validate that a value is a safe timezone identifier for use in
  * HTTP header values (e.g., the Prefer header).
  * 
- * Rejects double quotes, spaces, and other characters that could alter
- * header structure.
+ * Accepts IANA names ("Europe/Berlin") and the Windows names Graph returns
+ * for mailboxes and events ("W. Europe Standard Time"). Rejects double
+ * quotes, leading/trailing or repeated spaces, and other characters that
+ * could alter header structure.
  * 
  * @throws Error if the value contains unsafe characters
  */
 export function sanitizeTimezone(value: string): string {
   if (!TIMEZONE_PATTERN.test(value)) {
     throw new Error(
-      'Invalid timeZone: must be a valid IANA timezone identifier (e.g., "Europe/Berlin").'
+      'Invalid timeZone: must be a valid IANA or Windows timezone identifier (e.g., "Europe/Berlin").'
+    );
+  }
+  return value;
+}
+
+const EMAIL_PATTERN = /^[a-zA-Z0-9._+'-]+@[a-zA-Z0-9-]+(\.[a-zA-Z0-9-]+)+$/;
+
+/**
+ * Validate that a value is an email address or UPN that is safe for use as
+ * a URL path segment (e.g., `/users/{upn}`, `/places/{email}`).
+ * 
+ * Allows only the characters of ordinary addresses, so the value cannot
+ * contain `/`, `?`, `#`, `%` or whitespace.
+ * 
+ * @throws Error if the value is not a plain email address
+ */
+export function sanitizeEmailAddress(value: string, paramName = 'email'): string {
+  if (!value || !EMAIL_PATTERN.test(value) || value.includes('..')) {
+    throw new Error(
+      `Invalid ${paramName}: must be a plain email address (e.g., "jane.doe@company.com").`
     );
   }
   return value;